@@ -0,0 +1,235 @@
+#!/usr/bin/env node
+import { stat } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import {
+  configError,
+  dataError,
+  exitCodeFor,
+  findSnapshot,
+  findUpdatedAt,
+  formatError,
+  loadHistoryIndex,
+  projectPath,
+  readJsonFileOr,
+  readSnapshot,
+  resolveTimeZone,
+  runScript,
+  runSource,
+  toJsonText,
+  type Logger,
+  type SourceModule
+} from '../core/index.js';
+import { buildHistory } from '../history/build-history.js';
+import { buildApiIndex } from '../index/build-api-index.js';
+import { buildCorrelations } from '../insights/build-correlations.js';
+import { buildRollups } from '../rollups/build-rollups.js';
+import { buildSchemas } from '../schemas/build-schemas.js';
+import { findSource, sources } from '../registry.js';
+
+const USAGE = `Usage: kochu <command> [options]
+
+Commands:
+  run <source...>     Fetch, normalize and write the given sources, in order;
+                      stops at the first failure
+  run --all           Run every source, continuing past failures
+  dry-run <source>    Print the JSON a source would write, without writing it
+  list                List available sources
+  status              Show each source's output files and when they were updated
+  index               Rebuild api.json, api/index.json and the README status block
+  schemas             Regenerate api/schemas/*.schema.json and api/openapi.json
+  archive             Snapshot every endpoint into api/history/ and apply retention
+  history <endpoint> [date]
+                      List an endpoint's snapshots, or print the one in effect
+                      on a date (YYYY-MM-DD) or month (YYYY-MM)
+  rollups             Rebuild per-month/per-year metric aggregates in api/rollups/
+  insights            Recompute api/insights/correlations.json from the rollups
+
+Options:
+  --json              Machine-readable output (list, status)
+  -h, --help          Show this help
+`;
+
+function resolveSources(names: string[]): SourceModule<unknown>[] {
+  return names.map((name) => {
+    const source = findSource(name);
+    if (!source) {
+      throw configError(`Unknown source: ${name}`, { hint: 'Run "kochu list" to see available sources.' });
+    }
+    return source;
+  });
+}
+
+async function runCommand(log: Logger, names: string[], all: boolean): Promise<void> {
+  if (all && names.length > 0) {
+    throw configError('Pass either source names or --all, not both.');
+  }
+  if (!all && names.length === 0) {
+    throw configError('No sources given.', { hint: 'Usage: kochu run <source...> | kochu run --all' });
+  }
+
+  const selected = all ? sources : resolveSources(names);
+  const failed: { name: string; err: unknown }[] = [];
+
+  for (const source of selected) {
+    try {
+      const result = await runSource(source);
+      log.info(`${source.name} done`, { files: result.files.length, ms: result.durationMs });
+    } catch (err) {
+      if (!all) throw err;
+      log.error(`${source.name} failed: ${formatError(err)}`);
+      failed.push({ name: source.name, err });
+    }
+  }
+
+  if (failed.length > 0) {
+    log.error(`${failed.length}/${selected.length} sources failed`, { failed: failed.map((f) => f.name).join(',') });
+    process.exitCode = exitCodeFor(failed[0].err);
+  }
+}
+
+async function dryRunCommand(names: string[]): Promise<void> {
+  if (names.length !== 1) {
+    throw configError('dry-run takes exactly one source.', { hint: 'Usage: kochu dry-run <source>' });
+  }
+  const [source] = resolveSources(names);
+  const result = await runSource(source, { dryRun: true });
+
+  if (result.files.length === 1) {
+    process.stdout.write(toJsonText(result.files[0].data));
+    return;
+  }
+  for (const file of result.files) {
+    process.stdout.write(`==> ${file.path} <==\n${toJsonText(file.data)}`);
+  }
+}
+
+function listCommand(json: boolean): void {
+  if (json) {
+    const rows = sources.map((s) => ({ name: s.name, description: s.description, outputs: s.outputs.map((o) => o.path) }));
+    process.stdout.write(toJsonText(rows));
+    return;
+  }
+  const width = Math.max(...sources.map((s) => s.name.length));
+  for (const s of sources) {
+    process.stdout.write(`${s.name.padEnd(width)}  ${s.description}\n`);
+  }
+}
+
+type OutputStatus = {
+  source: string;
+  path: string;
+  exists: boolean;
+  updatedAt: string | null;
+  modifiedAt: string | null;
+};
+
+async function collectStatus(): Promise<OutputStatus[]> {
+  const rows: OutputStatus[] = [];
+  const { timeZone } = await resolveTimeZone();
+  for (const source of sources) {
+    for (const { path } of source.outputs) {
+      const absPath = projectPath(path);
+      let modifiedAt: string | null = null;
+      try {
+        modifiedAt = (await stat(absPath)).mtime.toISOString();
+      } catch {
+        rows.push({ source: source.name, path, exists: false, updatedAt: null, modifiedAt: null });
+        continue;
+      }
+      const data = await readJsonFileOr<unknown>(absPath, null);
+      rows.push({ source: source.name, path, exists: true, updatedAt: findUpdatedAt(data, { timeZone })?.iso ?? null, modifiedAt });
+    }
+  }
+  return rows;
+}
+
+async function statusCommand(json: boolean): Promise<void> {
+  const rows = await collectStatus();
+  if (json) {
+    process.stdout.write(toJsonText(rows));
+    return;
+  }
+  const nameWidth = Math.max(...rows.map((r) => r.source.length));
+  const pathWidth = Math.max(...rows.map((r) => r.path.length));
+  for (const r of rows) {
+    const state = r.exists ? `updated ${r.updatedAt ?? 'unknown'}` : 'missing';
+    process.stdout.write(`${r.source.padEnd(nameWidth)}  ${r.path.padEnd(pathWidth)}  ${state}\n`);
+  }
+}
+
+async function historyCommand(args: string[], json: boolean): Promise<void> {
+  const [name, when] = args;
+  if (!name || args.length > 2) {
+    throw configError('history takes an endpoint and an optional date.', { hint: 'Usage: kochu history <endpoint> [YYYY-MM-DD|YYYY-MM]' });
+  }
+  const index = await loadHistoryIndex(name);
+  if (!index) {
+    throw configError(`No history for ${name}`, { hint: 'Run "kochu archive" first, or check the endpoint name in api.json.' });
+  }
+
+  if (!when) {
+    if (json) {
+      process.stdout.write(toJsonText(index.snapshots));
+      return;
+    }
+    for (const s of index.snapshots) {
+      process.stdout.write(`${s.key.padEnd(10)}  ${s.granularity.padEnd(5)}  captured ${s.capturedAt}\n`);
+    }
+    return;
+  }
+
+  if (!/^\d{4}-\d{2}(-\d{2})?$/.test(when)) {
+    throw configError(`Invalid date: ${when}`, { hint: 'Use YYYY-MM-DD or YYYY-MM.' });
+  }
+  const entry = findSnapshot(index, when);
+  const data = entry ? await readSnapshot(entry) : null;
+  if (!entry || data === null) {
+    throw dataError(`No ${name} snapshot on or before ${when}`);
+  }
+  process.stdout.write(toJsonText(data));
+}
+
+async function main(log: Logger): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: {
+      all: { type: 'boolean', default: false },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+
+  const [command, ...rest] = positionals;
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  switch (command) {
+    case 'run':
+      return runCommand(log, rest, values.all ?? false);
+    case 'dry-run':
+      return dryRunCommand(rest);
+    case 'list':
+      return listCommand(values.json ?? false);
+    case 'status':
+      return statusCommand(values.json ?? false);
+    case 'index':
+      return buildApiIndex(log);
+    case 'schemas':
+      return buildSchemas(log);
+    case 'archive':
+      return buildHistory(log);
+    case 'history':
+      return historyCommand(rest, values.json ?? false);
+    case 'rollups':
+      return buildRollups(log);
+    case 'insights':
+      return buildCorrelations(log);
+    default:
+      throw configError(`Unknown command: ${command}`, { hint: 'Run "kochu --help" for usage.' });
+  }
+}
+
+runScript(import.meta.url, 'kochu', main);
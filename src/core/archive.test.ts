@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { DEFAULT_HISTORY_POLICY, findSnapshot, type HistoryEntry, type HistoryIndex } from './archive.js';
+
+function entry(key: string): HistoryEntry {
+  return { key, granularity: key.length === 7 ? 'month' : 'day', path: `/api/history/music/${key}.json`, capturedAt: '2026-01-01T00:00:00.000Z' };
+}
+
+const index: HistoryIndex = {
+  name: 'music',
+  updatedAt: '2026-06-01T00:00:00.000Z',
+  policy: DEFAULT_HISTORY_POLICY,
+  snapshots: ['2026-02', '2026-03', '2026-04-02', '2026-04-10'].map(entry)
+};
+
+test('findSnapshot treats a monthly snapshot as the end of its month', () => {
+  assert.equal(findSnapshot(index, '2026-03-05')?.key, '2026-02');
+  assert.equal(findSnapshot(index, '2026-03-31')?.key, '2026-03');
+  assert.equal(findSnapshot(index, '2026-03')?.key, '2026-03');
+});
+
+test('findSnapshot picks the latest daily snapshot on or before the date', () => {
+  assert.equal(findSnapshot(index, '2026-04-01')?.key, '2026-03');
+  assert.equal(findSnapshot(index, '2026-04-09')?.key, '2026-04-02');
+  assert.equal(findSnapshot(index, '2026-04')?.key, '2026-04-10');
+});
+
+test('findSnapshot returns null before the first snapshot', () => {
+  assert.equal(findSnapshot(index, '2026-01-15'), null);
+});
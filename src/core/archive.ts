@@ -0,0 +1,187 @@
+import { readFile, rename, rm } from 'node:fs/promises';
+import { addDays, localDate } from './dates.js';
+import { readJsonFileOr, toJsonText, writeJsonFile } from './io.js';
+import type { Logger } from './log.js';
+import { projectPath } from './paths.js';
+import { schema, validate, type Schema, type SchemaNode } from './schema.js';
+
+/**
+ * Dated snapshots of an endpoint under api/history/<name>/. One file per
+ * local day (YYYY-MM-DD.json) while recent; older days are compacted to the
+ * last snapshot of each month (YYYY-MM.json).
+ */
+export type HistoryPolicy = {
+  /** Keep daily snapshots this many days back; older ones are compacted to monthly. */
+  keepDailyDays: number;
+  /** Keep monthly snapshots this many months back; null keeps them forever. */
+  keepMonthlyMonths: number | null;
+};
+
+export const DEFAULT_HISTORY_POLICY: HistoryPolicy = { keepDailyDays: 90, keepMonthlyMonths: null };
+
+export type HistoryEntry = {
+  /** "2026-10-18" for a daily snapshot, "2026-03" for a monthly one. */
+  key: string;
+  granularity: 'day' | 'month';
+  path: string;
+  /** When the archived data was produced (the endpoint's own timestamp). */
+  capturedAt: string;
+};
+
+export type HistoryIndex = {
+  name: string;
+  updatedAt: string;
+  policy: HistoryPolicy;
+  snapshots: HistoryEntry[];
+};
+
+export const historyIndexSchema: Schema<HistoryIndex> = schema.object({
+  name: schema.string({ minLength: 1 }),
+  updatedAt: schema.string({ format: 'date-time' }),
+  policy: schema.object({
+    keepDailyDays: schema.integer({ minimum: 1 }),
+    keepMonthlyMonths: schema.nullable(schema.integer({ minimum: 1 }))
+  }),
+  snapshots: schema.array(
+    schema.object({
+      key: schema.string({ pattern: /^\d{4}-\d{2}(-\d{2})?$/ }),
+      granularity: schema.literal('day', 'month'),
+      path: schema.string({ minLength: 1 }),
+      capturedAt: schema.string({ format: 'date-time' })
+    })
+  )
+});
+
+export function historyDir(name: string): string {
+  return `api/history/${name}`;
+}
+
+function entryFor(name: string, key: string, capturedAt: string): HistoryEntry {
+  return {
+    key,
+    granularity: key.length === 7 ? 'month' : 'day',
+    path: `/${historyDir(name)}/${key}.json`,
+    capturedAt
+  };
+}
+
+export async function loadHistoryIndex(name: string): Promise<HistoryIndex | null> {
+  return readJsonFileOr<HistoryIndex | null>(projectPath(historyDir(name), 'index.json'), null);
+}
+
+/** Read one archived snapshot by its index entry. */
+export async function readSnapshot<T = unknown>(entry: HistoryEntry): Promise<T | null> {
+  return readJsonFileOr<T | null>(projectPath(entry.path.slice(1)), null);
+}
+
+/**
+ * The snapshot in effect at `when` ("2026-03-15", or "2026-03" for the end of
+ * March): the latest one keyed on or before it. Unchanged data is not
+ * re-archived, so this may be a snapshot from an earlier day or month. A
+ * monthly snapshot holds the month's last data, so it counts as the month's
+ * last day.
+ */
+export function findSnapshot(index: HistoryIndex, when: string): HistoryEntry | null {
+  const endOf = (key: string) => (key.length === 7 ? `${key}-31` : key);
+  const until = endOf(when);
+  const candidates = index.snapshots
+    .map((s) => ({ s, at: endOf(s.key) }))
+    .filter((c) => c.at <= until)
+    .sort((a, b) => a.at.localeCompare(b.at) || a.s.key.localeCompare(b.s.key));
+  return candidates[candidates.length - 1]?.s ?? null;
+}
+
+/** Every archived version of an endpoint that still matches `node`, oldest first, then the live file. */
+export async function loadEndpointVersions<T>(name: string, path: string, node: SchemaNode): Promise<T[]> {
+  const versions: unknown[] = [];
+  const index = await loadHistoryIndex(name);
+  for (const entry of index?.snapshots ?? []) {
+    versions.push(await readSnapshot(entry));
+  }
+  versions.push(await readJsonFileOr<unknown>(projectPath(path), null));
+  return versions.filter((v) => v !== null && validate(node, v).length === 0) as T[];
+}
+
+export type ArchiveResult = { written: string | null; compacted: string[]; removed: string[] };
+
+/**
+ * Archive `data` as the snapshot for the local day of `capturedAt`, then apply
+ * the retention policy. A snapshot identical to the most recent one is not
+ * written again: "what did it look like on day X" is the latest snapshot <= X.
+ */
+export async function archiveSnapshot(params: {
+  name: string;
+  data: unknown;
+  capturedAt: Date;
+  now: Date;
+  policy?: HistoryPolicy;
+  timeZone?: string;
+  log: Logger;
+}): Promise<ArchiveResult> {
+  const { name, data, capturedAt, now, log } = params;
+  const policy = params.policy ?? DEFAULT_HISTORY_POLICY;
+  const dir = historyDir(name);
+  const index: HistoryIndex = (await loadHistoryIndex(name)) ?? { name, updatedAt: '', policy, snapshots: [] };
+  const result: ArchiveResult = { written: null, compacted: [], removed: [] };
+
+  const text = toJsonText(data);
+  const key = localDate(capturedAt, params.timeZone);
+  const snapshots = [...index.snapshots].sort((a, b) => a.key.localeCompare(b.key));
+  const latest = snapshots[snapshots.length - 1];
+  const latestText = latest ? await readFile(projectPath(latest.path.slice(1)), 'utf-8').catch(() => null) : null;
+
+  if (latestText !== text) {
+    await writeJsonFile(projectPath(dir, `${key}.json`), data);
+    const entry = entryFor(name, key, capturedAt.toISOString());
+    const i = snapshots.findIndex((s) => s.key === key);
+    if (i === -1) snapshots.push(entry);
+    else snapshots[i] = entry;
+    result.written = entry.path;
+  }
+
+  // Compact daily snapshots older than the window: keep the last one per month.
+  const dailyCutoff = addDays(localDate(now, params.timeZone), -policy.keepDailyDays);
+  const expired = snapshots.filter((s) => s.granularity === 'day' && s.key < dailyCutoff);
+  const byMonth = new Map<string, HistoryEntry[]>();
+  for (const s of expired) {
+    const month = s.key.slice(0, 7);
+    byMonth.set(month, [...(byMonth.get(month) ?? []), s]);
+  }
+  for (const [month, days] of byMonth) {
+    const newest = days[days.length - 1];
+    const existing = snapshots.find((s) => s.key === month);
+    if (!existing || existing.capturedAt < newest.capturedAt) {
+      await rename(projectPath(newest.path.slice(1)), projectPath(dir, `${month}.json`));
+      const entry = entryFor(name, month, newest.capturedAt);
+      if (existing) snapshots[snapshots.indexOf(existing)] = entry;
+      else snapshots.push(entry);
+      result.compacted.push(entry.path);
+    } else {
+      await rm(projectPath(newest.path.slice(1)), { force: true });
+    }
+    for (const d of days.slice(0, -1)) {
+      await rm(projectPath(d.path.slice(1)), { force: true });
+    }
+    for (const d of days) snapshots.splice(snapshots.indexOf(d), 1);
+  }
+
+  // Drop monthly snapshots past their retention.
+  if (policy.keepMonthlyMonths !== null) {
+    const cutoff = new Date(`${localDate(now, params.timeZone).slice(0, 7)}-01T00:00:00Z`);
+    cutoff.setUTCMonth(cutoff.getUTCMonth() - policy.keepMonthlyMonths);
+    const monthCutoff = cutoff.toISOString().slice(0, 7);
+    for (const s of snapshots.filter((e) => e.granularity === 'month' && e.key < monthCutoff)) {
+      await rm(projectPath(s.path.slice(1)), { force: true });
+      snapshots.splice(snapshots.indexOf(s), 1);
+      result.removed.push(s.path);
+    }
+  }
+
+  snapshots.sort((a, b) => a.key.localeCompare(b.key));
+  await writeJsonFile(projectPath(dir, 'index.json'), { name, updatedAt: now.toISOString(), policy, snapshots } satisfies HistoryIndex);
+
+  if (result.written) log.info(`Archived ${result.written}`);
+  if (result.compacted.length > 0) log.info(`Compacted ${name} history`, { months: result.compacted.length });
+  if (result.removed.length > 0) log.info(`Removed expired ${name} history`, { snapshots: result.removed.length });
+  return result;
+}
@@ -0,0 +1,98 @@
+import tzLookup from 'tz-lookup';
+import { addDays, DEFAULT_TIME_ZONE, localDate, zonedTimeToUtc } from './dates.js';
+import { configError } from './errors.js';
+import { readJsonFileOr } from './io.js';
+import { projectPath } from './paths.js';
+
+/**
+ * Day and week boundaries in the user's own time zone. The zone comes from,
+ * in order: KOCHU_TIME_ZONE, the coordinates in api/location.json, the
+ * timeZone or coordinates in data/places/home.json, then DEFAULT_TIME_ZONE.
+ */
+
+export type TimeZoneSource = 'env' | 'location' | 'home' | 'default';
+
+export type ResolvedTimeZone = { timeZone: string; source: TimeZoneSource };
+
+/** A Monday-to-Sunday week. start/end are the UTC instants of its local midnights; end is exclusive. */
+export type CalendarWeek = {
+  /** Monday, YYYY-MM-DD */
+  weekStart: string;
+  /** Sunday, YYYY-MM-DD */
+  weekEnd: string;
+  start: string;
+  end: string;
+};
+
+type Coordinates = { latitude?: unknown; longitude?: unknown };
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function zoneAt(c: Coordinates | null): string | null {
+  if (!c || typeof c.latitude !== 'number' || typeof c.longitude !== 'number') return null;
+  if (Math.abs(c.latitude) > 90 || Math.abs(c.longitude) > 180) return null;
+  try {
+    return tzLookup(c.latitude, c.longitude);
+  } catch {
+    return null;
+  }
+}
+
+export async function resolveTimeZone(): Promise<ResolvedTimeZone> {
+  const env = process.env.KOCHU_TIME_ZONE?.trim();
+  if (env) {
+    if (!isValidTimeZone(env)) {
+      throw configError(`KOCHU_TIME_ZONE is not a valid IANA time zone: ${env}`, { hint: 'e.g. America/New_York' });
+    }
+    return { timeZone: env, source: 'env' };
+  }
+
+  const location = zoneAt(await readJsonFileOr<Coordinates | null>(projectPath('api', 'location.json'), null));
+  if (location) return { timeZone: location, source: 'location' };
+
+  const home = await readJsonFileOr<(Coordinates & { timeZone?: unknown }) | null>(projectPath('data', 'places', 'home.json'), null);
+  if (typeof home?.timeZone === 'string' && isValidTimeZone(home.timeZone)) return { timeZone: home.timeZone, source: 'home' };
+  const homeZone = zoneAt(home);
+  if (homeZone) return { timeZone: homeZone, source: 'home' };
+
+  return { timeZone: DEFAULT_TIME_ZONE, source: 'default' };
+}
+
+/** 1 = Monday … 7 = Sunday, for a YYYY-MM-DD date. */
+export function isoWeekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay() || 7;
+}
+
+/** UTC instant of local midnight at the start of `date` in `timeZone`. */
+export function startOfDay(date: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return zonedTimeToUtc({ year, month, day }, timeZone);
+}
+
+/** The week containing a YYYY-MM-DD date. */
+export function weekOf(date: string, timeZone: string): CalendarWeek {
+  const weekStart = addDays(date, 1 - isoWeekday(date));
+  return {
+    weekStart,
+    weekEnd: addDays(weekStart, 6),
+    start: startOfDay(weekStart, timeZone).toISOString(),
+    end: startOfDay(addDays(weekStart, 7), timeZone).toISOString()
+  };
+}
+
+/** The week `now` falls in, in `timeZone`. */
+export function currentWeek(now: Date, timeZone: string): CalendarWeek {
+  return weekOf(localDate(now, timeZone), timeZone);
+}
+
+/** The last complete week: the one that ended at the most recent local Monday midnight. */
+export function previousWeek(now: Date, timeZone: string): CalendarWeek {
+  return weekOf(addDays(currentWeek(now, timeZone).weekStart, -7), timeZone);
+}
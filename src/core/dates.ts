@@ -0,0 +1,184 @@
+/**
+ * Timestamp normalization for feeds that disagree on formats: ISO strings
+ * with or without an offset, epoch seconds/milliseconds, and iOS Shortcuts'
+ * locale strings ("Apr 17, 2026 at 7:00 AM", which carry no zone at all).
+ */
+
+/** Zone assumed for timestamps without an offset until a better one is known. */
+export const DEFAULT_TIME_ZONE = 'America/New_York';
+
+export type WallTime = {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour?: number;
+  minute?: number;
+  second?: number;
+};
+
+export type NormalizedTimestamp = {
+  /** Canonical UTC ISO 8601 string, e.g. "2026-04-17T11:00:00.000Z". */
+  iso: string;
+  /** The value as it appeared in the feed. */
+  original: string | number;
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/** Wall-clock fields of `date` in `timeZone`. */
+export function wallTimeIn(timeZone: string, date: Date): Required<WallTime> {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? NaN);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+}
+
+/** Offset of `timeZone` from UTC at the given instant, in minutes (e.g. -240 for EDT). */
+export function timeZoneOffsetMinutes(timeZone: string, date: Date): number {
+  const w = wallTimeIn(timeZone, date);
+  const asUtc = Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second);
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - instant) / 60000);
+}
+
+/** UTC instant of a wall-clock time in `timeZone`. DST-aware; times inside a spring-forward gap land an hour early. */
+export function zonedTimeToUtc(wall: WallTime, timeZone: string): Date {
+  const guess = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour ?? 0, wall.minute ?? 0, wall.second ?? 0);
+  const offset = timeZoneOffsetMinutes(timeZone, new Date(guess));
+  let utc = guess - offset * 60000;
+  const corrected = timeZoneOffsetMinutes(timeZone, new Date(utc));
+  if (corrected !== offset) utc = guess - corrected * 60000;
+  return new Date(utc);
+}
+
+function fromEpoch(n: number): Date | null {
+  if (!Number.isFinite(n) || n <= 0) return null;
+  // Anything below 1e11 is seconds (1e11 s is the year 5138; 1e11 ms is 1973).
+  return new Date(n < 1e11 ? n * 1000 : n);
+}
+
+function to24h(hour: number, meridiem: string | undefined): number {
+  if (!meridiem) return hour;
+  const pm = meridiem.toLowerCase() === 'pm';
+  if (hour === 12) return pm ? 12 : 0;
+  return pm ? hour + 12 : hour;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** Wall time parsed from a string, or null when a field is out of range ("2026-13-45", "Apr 31"). */
+function checkedWallTime(wall: Required<WallTime>): Required<WallTime> | null {
+  const { year, month, day, hour, minute, second } = wall;
+  if (month < 1 || month > 12) return null;
+  if (day < 1 || day > daysInMonth(year, month)) return null;
+  if (hour > 23 || minute > 59 || second > 59) return null;
+  return wall;
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+}
+
+const ISO_WITH_ZONE = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i;
+const ISO_LOCAL = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/;
+// "Apr 17, 2026 at 7:00 AM", "April 17, 2026, 7:00 PM", "Apr 17, 2026 at 19:00"
+const SHORTCUT_MDY = /^([a-z]{3,9})\.? (\d{1,2}),? (\d{4})(?:,? (?:at )?(\d{1,2}):(\d{2})(?::(\d{2}))? ?([ap]m)?)?$/i;
+// "17 Apr 2026 at 19:00", "17 April 2026, 7:00 PM"
+const SHORTCUT_DMY = /^(\d{1,2}) ([a-z]{3,9})\.? (\d{4})(?:,? (?:at )?(\d{1,2}):(\d{2})(?::(\d{2}))? ?([ap]m)?)?$/i;
+
+function parseString(raw: string, timeZone: string): Date | null {
+  // iOS inserts narrow/no-break spaces before AM/PM.
+  const s = raw.replace(/[\u00a0\u202f]/g, ' ').trim().replace(/\s+/g, ' ');
+  if (!s) return null;
+
+  if (/^\d+(\.\d+)?$/.test(s)) return fromEpoch(Number(s));
+
+  const zoned = ISO_WITH_ZONE.exec(s);
+  if (zoned) {
+    const [, y, mo, d, h, mi, sec] = zoned;
+    if (!checkedWallTime({ year: +y, month: +mo, day: +d, hour: +h, minute: +mi, second: +(sec ?? 0) })) return null;
+    const ms = Date.parse(s);
+    return Number.isNaN(ms) ? null : new Date(ms);
+  }
+
+  const local = ISO_LOCAL.exec(s);
+  if (local) {
+    const [, y, mo, d, h, mi, sec] = local;
+    const wall = checkedWallTime({ year: +y, month: +mo, day: +d, hour: +(h ?? 0), minute: +(mi ?? 0), second: +(sec ?? 0) });
+    return wall ? zonedTimeToUtc(wall, timeZone) : null;
+  }
+
+  const mdy = SHORTCUT_MDY.exec(s);
+  const dmy = mdy ? null : SHORTCUT_DMY.exec(s);
+  if (mdy || dmy) {
+    const [monthName, day, year, hour, minute, second, meridiem] = mdy
+      ? [mdy[1], mdy[2], mdy[3], mdy[4], mdy[5], mdy[6], mdy[7]]
+      : [dmy![2], dmy![1], dmy![3], dmy![4], dmy![5], dmy![6], dmy![7]];
+    const month = monthIndex(monthName);
+    if (month === 0) return null;
+    if (meridiem && (Number(hour) < 1 || Number(hour) > 12)) return null;
+    const wall = checkedWallTime({
+      year: +year,
+      month,
+      day: +day,
+      hour: to24h(+(hour ?? 0), meridiem),
+      minute: +(minute ?? 0),
+      second: +(second ?? 0)
+    });
+    return wall ? zonedTimeToUtc(wall, timeZone) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Parse a timestamp from any feed into canonical UTC ISO. Strings without an
+ * offset are read as wall-clock time in `timeZone`. Returns null when the
+ * value is not a recognizable timestamp.
+ */
+export function normalizeTimestamp(
+  value: unknown,
+  options: { timeZone?: string } = {}
+): NormalizedTimestamp | null {
+  const timeZone = options.timeZone ?? DEFAULT_TIME_ZONE;
+  let date: Date | null = null;
+  if (typeof value === 'number') date = fromEpoch(value);
+  else if (typeof value === 'string') date = parseString(value, timeZone);
+  if (!date || Number.isNaN(date.getTime())) return null;
+  return { iso: date.toISOString(), original: value as string | number };
+}
+
+/** Calendar date (YYYY-MM-DD) of an instant in `timeZone`. */
+export function localDate(date: Date, timeZone: string = DEFAULT_TIME_ZONE): string {
+  const w = wallTimeIn(timeZone, date);
+  return `${w.year}-${String(w.month).padStart(2, '0')}-${String(w.day).padStart(2, '0')}`;
+}
+
+/** Shift a YYYY-MM-DD date by whole days. */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** The first recognizable update timestamp on a feed object (updatedAt, lastUpdated, ... or a raw file's _fetchedAt). */
+export function findUpdatedAt(obj: unknown, options: { timeZone?: string } = {}): NormalizedTimestamp | null {
+  if (!obj || typeof obj !== 'object' || Array.isArray(obj)) return null;
+  const o = obj as Record<string, unknown>;
+  for (const c of [o.updatedAt, o.lastUpdated, o.last_updated, o._fetchedAt]) {
+    const normalized = normalizeTimestamp(typeof c === 'string' ? c.trim() : c, options);
+    if (normalized) return normalized;
+  }
+  return null;
+}
@@ -0,0 +1,68 @@
+/**
+ * Process exit codes shared by every script. Workflows only care about zero vs
+ * non-zero, but the distinct codes make local failures easier to tell apart.
+ */
+export const ExitCode = {
+  ok: 0,
+  failure: 1,
+  config: 2,
+  upstream: 3,
+  data: 4
+} as const;
+
+export type ExitCode = (typeof ExitCode)[keyof typeof ExitCode];
+
+/**
+ * - config: missing/invalid env vars or local setup
+ * - upstream: a remote API failed, returned non-2xx or unparseable data
+ * - data: input or output data is missing or has the wrong shape
+ */
+export type SourceErrorKind = 'config' | 'upstream' | 'data';
+
+type SourceErrorOptions = {
+  cause?: unknown;
+  /** Short remediation hint printed after the message. */
+  hint?: string;
+  /** Extra context (e.g. a response snippet); logged, never thrown away. */
+  details?: Record<string, unknown>;
+};
+
+export class SourceError extends Error {
+  readonly kind: SourceErrorKind;
+  readonly hint: string | undefined;
+  readonly details: Record<string, unknown> | undefined;
+
+  constructor(kind: SourceErrorKind, message: string, options: SourceErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = 'SourceError';
+    this.kind = kind;
+    this.hint = options.hint;
+    this.details = options.details;
+  }
+}
+
+export function configError(message: string, options?: SourceErrorOptions): SourceError {
+  return new SourceError('config', message, options);
+}
+
+export function upstreamError(message: string, options?: SourceErrorOptions): SourceError {
+  return new SourceError('upstream', message, options);
+}
+
+export function dataError(message: string, options?: SourceErrorOptions): SourceError {
+  return new SourceError('data', message, options);
+}
+
+export function exitCodeFor(err: unknown): ExitCode {
+  if (err instanceof SourceError) return ExitCode[err.kind];
+  return ExitCode.failure;
+}
+
+/** Message plus one level of `cause`, e.g. "fetch failed (getaddrinfo ENOTFOUND ...)". */
+export function formatError(err: unknown): string {
+  if (err instanceof Error) {
+    const cause = err.cause instanceof Error ? ` (${err.cause.message})` : err.cause ? ` (cause: ${String(err.cause)})` : '';
+    return `${err.message}${cause}`;
+  }
+  return String(err);
+}
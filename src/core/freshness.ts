@@ -0,0 +1,48 @@
+/** Compact duration such as "30m", "6h", "1d" or "2w". */
+export type DurationText = `${number}${'m' | 'h' | 'd' | 'w'}`;
+
+const UNIT_SECONDS = { m: 60, h: 3600, d: 86400, w: 604800 } as const;
+
+export function parseDuration(text: DurationText): number {
+  const match = /^(\d+(?:\.\d+)?)([mhdw])$/.exec(text);
+  if (!match) throw new Error(`Invalid duration: ${JSON.stringify(text)}`);
+  return Math.round(Number(match[1]) * UNIT_SECONDS[match[2] as keyof typeof UNIT_SECONDS]);
+}
+
+/** Human-readable age, two most significant units: 90061 → "1d 1h". */
+export function formatDuration(seconds: number): string {
+  const parts: string[] = [];
+  let rest = Math.max(0, Math.round(seconds));
+  for (const [unit, size] of [['d', 86400], ['h', 3600], ['m', 60]] as const) {
+    if (rest >= size) {
+      parts.push(`${Math.floor(rest / size)}${unit}`);
+      rest %= size;
+    }
+  }
+  return parts.slice(0, 2).join(' ') || `${rest}s`;
+}
+
+export type Freshness = 'fresh' | 'stale' | 'unknown';
+
+/**
+ * How late a refresh may be, as a fraction of its interval, before the
+ * endpoint counts as stale. Cron runs drift and GitHub delays scheduled jobs.
+ */
+export const STALE_GRACE = 0.5;
+
+/**
+ * Compare an endpoint's last update with its expected refresh interval.
+ * `unknown` when either is missing or the timestamp does not parse.
+ */
+export function assessFreshness(
+  lastUpdated: string | null,
+  expectedSeconds: number | null,
+  now: Date
+): { freshness: Freshness; ageSeconds: number | null } {
+  const ms = lastUpdated ? Date.parse(lastUpdated) : NaN;
+  if (Number.isNaN(ms)) return { freshness: 'unknown', ageSeconds: null };
+  const ageSeconds = Math.max(0, Math.round((now.getTime() - ms) / 1000));
+  if (expectedSeconds === null) return { freshness: 'unknown', ageSeconds };
+  const freshness = ageSeconds > expectedSeconds * (1 + STALE_GRACE) ? 'stale' : 'fresh';
+  return { freshness, ageSeconds };
+}
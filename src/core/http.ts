@@ -0,0 +1,42 @@
+import { upstreamError } from './errors.js';
+import { safeSnippet } from './text.js';
+
+/**
+ * Fetch a URL and return the body text. Network failures and non-2xx
+ * responses become upstream errors named after `label` (e.g. "Todoist"),
+ * with a short response snippet and the optional `hint` attached.
+ */
+export async function fetchText(label: string, url: string, init?: RequestInit, hint?: string): Promise<string> {
+  let res: Response;
+  try {
+    res = await fetch(url, init);
+  } catch (fetchErr) {
+    const msg = fetchErr instanceof Error ? fetchErr.message : String(fetchErr);
+    throw upstreamError(`${label} request failed: ${msg}`, {
+      cause: fetchErr instanceof Error ? fetchErr.cause : undefined,
+      hint
+    });
+  }
+
+  const responseText = await res.text();
+  if (!res.ok) {
+    throw upstreamError(`${label} request failed: HTTP ${res.status} ${res.statusText}.`, {
+      hint,
+      details: { snippet: safeSnippet(responseText) }
+    });
+  }
+  return responseText;
+}
+
+/** fetchText + JSON.parse; invalid JSON is an upstream error. */
+export async function fetchJson<T = unknown>(label: string, url: string, init?: RequestInit, hint?: string): Promise<T> {
+  const responseText = await fetchText(label, url, init, hint);
+  try {
+    return JSON.parse(responseText) as T;
+  } catch {
+    throw upstreamError(`${label} response was not valid JSON.`, {
+      hint,
+      details: { snippet: safeSnippet(responseText) }
+    });
+  }
+}
@@ -0,0 +1,13 @@
+export * from './archive.js';
+export * from './calendar.js';
+export * from './dates.js';
+export * from './errors.js';
+export * from './freshness.js';
+export * from './http.js';
+export * from './io.js';
+export * from './log.js';
+export * from './paths.js';
+export * from './run.js';
+export * from './schema.js';
+export * from './source.js';
+export * from './text.js';
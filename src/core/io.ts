@@ -0,0 +1,53 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { dataError } from './errors.js';
+import { displayPath } from './paths.js';
+
+/** Pretty JSON with 2-space indentation and a trailing newline, as committed under api/. */
+export function toJsonText(data: unknown): string {
+  return JSON.stringify(data, null, 2) + '\n';
+}
+
+export async function writeJsonFile(absPath: string, data: unknown): Promise<void> {
+  await mkdir(dirname(absPath), { recursive: true });
+  await writeFile(absPath, toJsonText(data), 'utf-8');
+}
+
+/** Read and parse a JSON file. Missing files and invalid JSON become data errors. */
+export async function readJsonFile<T = unknown>(absPath: string, hint?: string): Promise<T> {
+  let text: string;
+  try {
+    text = await readFile(absPath, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw dataError(`${displayPath(absPath)} not found.`, { hint });
+    }
+    throw dataError(`Failed to read ${displayPath(absPath)}`, { cause: err });
+  }
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw dataError(`${displayPath(absPath)} is not valid JSON.`, { hint });
+  }
+}
+
+/** Like readJsonFile, but missing or invalid files yield `fallback`. */
+export async function readJsonFileOr<T>(absPath: string, fallback: T): Promise<T> {
+  try {
+    return await readJsonFile<T>(absPath);
+  } catch {
+    return fallback;
+  }
+}
+
+/** Read a text file; a missing file is a data error carrying `hint`. */
+export async function readTextFile(absPath: string, hint?: string): Promise<string> {
+  try {
+    return await readFile(absPath, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw dataError(`${displayPath(absPath)} is missing.`, { hint });
+    }
+    throw dataError(`Failed to read ${displayPath(absPath)}`, { cause: err });
+  }
+}
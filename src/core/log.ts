@@ -0,0 +1,55 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export type Logger = {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+};
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+function minLevel(): LogLevel {
+  const v = (process.env.KOCHU_LOG_LEVEL || '').trim().toLowerCase();
+  return v in LEVEL_ORDER ? (v as LogLevel) : 'info';
+}
+
+function formatValue(v: unknown): string {
+  if (typeof v === 'string') return /\s/.test(v) ? JSON.stringify(v) : v;
+  return JSON.stringify(v);
+}
+
+/**
+ * Logger scoped to one source/script. Plain text by default
+ * ("[music] Wrote api/music.json artists=15"); set KOCHU_LOG_FORMAT=json for
+ * one JSON object per line. Everything goes to stderr so stdout stays free
+ * for data (e.g. `kochu dry-run`).
+ */
+export function createLogger(scope: string): Logger {
+  const json = (process.env.KOCHU_LOG_FORMAT || '').trim().toLowerCase() === 'json';
+  const threshold = LEVEL_ORDER[minLevel()];
+
+  const emit = (level: LogLevel, msg: string, fields?: LogFields) => {
+    if (LEVEL_ORDER[level] < threshold) return;
+    if (json) {
+      process.stderr.write(JSON.stringify({ time: new Date().toISOString(), level, scope, msg, ...fields }) + '\n');
+      return;
+    }
+    const extra = fields
+      ? Object.entries(fields)
+          .filter(([, v]) => v !== undefined)
+          .map(([k, v]) => `${k}=${formatValue(v)}`)
+          .join(' ')
+      : '';
+    process.stderr.write(`[${scope}] ${msg}${extra ? ' ' + extra : ''}\n`);
+  };
+
+  return {
+    debug: (msg, fields) => emit('debug', msg, fields),
+    info: (msg, fields) => emit('info', msg, fields),
+    warn: (msg, fields) => emit('warn', msg, fields),
+    error: (msg, fields) => emit('error', msg, fields)
+  };
+}
@@ -0,0 +1,35 @@
+import { realpathSync } from 'node:fs';
+import { dirname, join, relative, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/** Repository root; this file lives in src/core (or dist/core once compiled). */
+export const projectRoot = join(__dirname, '../..');
+
+/** Absolute path for a project-relative path such as "api/music.json". */
+export function projectPath(...segments: string[]): string {
+  return join(projectRoot, ...segments);
+}
+
+/** Project-relative, forward-slashed path for logs and output listings. */
+export function displayPath(absPath: string): string {
+  return relative(projectRoot, absPath).split('\\').join('/');
+}
+
+/**
+ * True when the module identified by `metaUrl` is the script node was started
+ * with. The entry path is resolved through symlinks so npm's `bin` links match.
+ */
+export function isMainModule(metaUrl: string): boolean {
+  const entry = process.argv[1];
+  if (!entry) return false;
+  let entryPath = resolve(entry);
+  try {
+    entryPath = realpathSync(entryPath);
+  } catch {
+    // keep the unresolved path
+  }
+  return fileURLToPath(metaUrl) === entryPath;
+}
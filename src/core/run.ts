@@ -0,0 +1,31 @@
+import { exitCodeFor, formatError, SourceError } from './errors.js';
+import { createLogger, type Logger } from './log.js';
+import { isMainModule } from './paths.js';
+import { runSource, type SourceModule } from './source.js';
+
+/** Log a fatal error (with hint and details for SourceErrors) and return its exit code. */
+export function reportFatal(log: Logger, err: unknown): number {
+  const fields = err instanceof SourceError ? { kind: err.kind, ...err.details } : undefined;
+  log.error(`Fatal error: ${formatError(err)}`, fields);
+  if (err instanceof SourceError && err.hint) log.error(err.hint);
+  return exitCodeFor(err);
+}
+
+/**
+ * Script footer: when `metaUrl` is the entry point, run `task` and exit
+ * non-zero on failure. Importing the module (e.g. from the CLI) is a no-op.
+ */
+export function runScript(metaUrl: string, scope: string, task: (log: Logger) => Promise<void>): void {
+  if (!isMainModule(metaUrl)) return;
+  const log = createLogger(scope);
+  task(log).catch((err) => {
+    process.exit(reportFatal(log, err));
+  });
+}
+
+/** runScript for a single source module. */
+export function runSourceScript(metaUrl: string, source: SourceModule<unknown>): void {
+  runScript(metaUrl, source.name, async () => {
+    await runSource(source);
+  });
+}
@@ -0,0 +1,234 @@
+/**
+ * Minimal runtime schemas for the JSON we publish. A schema is plain data
+ * (walked by toJsonSchema to publish api/schemas/) plus a phantom type
+ * parameter, so `const s: Schema<MusicOutput> = ...` fails to compile when the
+ * schema and the TypeScript type drift apart. The output types stay the source
+ * of truth; schemas are checked against them.
+ */
+
+type Primitive = string | number | boolean | null;
+
+export type SchemaNode =
+  | { kind: 'string'; minLength?: number; pattern?: RegExp; format?: 'date' | 'date-time' }
+  | { kind: 'number'; integer?: boolean; minimum?: number }
+  | { kind: 'boolean' }
+  | { kind: 'literal'; values: readonly Primitive[] }
+  | { kind: 'nullable'; inner: SchemaNode }
+  | { kind: 'optional'; inner: SchemaNode }
+  | { kind: 'array'; items: SchemaNode; minItems?: number }
+  | { kind: 'object'; shape: Record<string, SchemaNode> }
+  | { kind: 'record'; values: SchemaNode }
+  | { kind: 'union'; options: SchemaNode[] }
+  | { kind: 'unknown' };
+
+export type Schema<T> = SchemaNode & { readonly _type?: T };
+
+type OptionalSchema<T> = Schema<T | undefined> & { kind: 'optional' };
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends { kind: 'optional' } ? K : never }[keyof S];
+type RequiredKeys<S extends Shape> = Exclude<keyof S, OptionalKeys<S>>;
+type ObjectType<S extends Shape> = { [K in RequiredKeys<S>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined> };
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME_RE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+export const schema = {
+  string(opts: { minLength?: number; pattern?: RegExp; format?: 'date' | 'date-time' } = {}): Schema<string> {
+    return { kind: 'string', ...opts };
+  },
+  number(opts: { minimum?: number } = {}): Schema<number> {
+    return { kind: 'number', ...opts };
+  },
+  integer(opts: { minimum?: number } = {}): Schema<number> {
+    return { kind: 'number', integer: true, ...opts };
+  },
+  boolean(): Schema<boolean> {
+    return { kind: 'boolean' };
+  },
+  literal<const V extends readonly Primitive[]>(...values: V): Schema<V[number]> {
+    return { kind: 'literal', values };
+  },
+  nullable<T>(inner: Schema<T>): Schema<T | null> {
+    return { kind: 'nullable', inner };
+  },
+  optional<T>(inner: Schema<T>): OptionalSchema<T> {
+    return { kind: 'optional', inner };
+  },
+  array<T>(items: Schema<T>, opts: { minItems?: number } = {}): Schema<T[]> {
+    return { kind: 'array', items, ...opts };
+  },
+  object<S extends Shape>(shape: S): Schema<ObjectType<S>> {
+    return { kind: 'object', shape };
+  },
+  record<T>(values: Schema<T>): Schema<Record<string, T>> {
+    return { kind: 'record', values };
+  },
+  union<const O extends readonly Schema<unknown>[]>(...options: O): Schema<Infer<O[number]>> {
+    return { kind: 'union', options: [...options] };
+  },
+  unknown(): Schema<unknown> {
+    return { kind: 'unknown' };
+  }
+};
+
+/** One validation failure, e.g. { path: '$.topArtists', message: 'expected at least 1 item, got 0' }. */
+export type SchemaIssue = { path: string; message: string };
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function check(node: SchemaNode, value: unknown, path: string, issues: SchemaIssue[]): void {
+  switch (node.kind) {
+    case 'unknown':
+      return;
+    case 'optional':
+      if (value !== undefined) check(node.inner, value, path, issues);
+      return;
+    case 'nullable':
+      if (value !== null) check(node.inner, value, path, issues);
+      return;
+    case 'union': {
+      const attempts = node.options.map((option) => validate(option, value));
+      if (attempts.some((a) => a.length === 0)) return;
+      issues.push({ path, message: `matched none of ${node.options.length} alternatives, got ${describe(value)}` });
+      return;
+    }
+    case 'string': {
+      if (typeof value !== 'string') {
+        issues.push({ path, message: `expected string, got ${describe(value)}` });
+        return;
+      }
+      if (node.minLength !== undefined && value.length < node.minLength) {
+        issues.push({ path, message: `expected at least ${node.minLength} characters` });
+      }
+      if (node.pattern && !node.pattern.test(value)) {
+        issues.push({ path, message: `expected to match ${node.pattern}, got ${JSON.stringify(value)}` });
+      }
+      if (node.format === 'date' && !DATE_RE.test(value)) {
+        issues.push({ path, message: `expected YYYY-MM-DD date, got ${JSON.stringify(value)}` });
+      }
+      if (node.format === 'date-time' && (!DATE_TIME_RE.test(value) || Number.isNaN(Date.parse(value)))) {
+        issues.push({ path, message: `expected ISO 8601 date-time, got ${JSON.stringify(value)}` });
+      }
+      return;
+    }
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ path, message: `expected number, got ${describe(value)}` });
+        return;
+      }
+      if (node.integer && !Number.isInteger(value)) {
+        issues.push({ path, message: `expected integer, got ${value}` });
+      }
+      if (node.minimum !== undefined && value < node.minimum) {
+        issues.push({ path, message: `expected >= ${node.minimum}, got ${value}` });
+      }
+      return;
+    case 'boolean':
+      if (typeof value !== 'boolean') issues.push({ path, message: `expected boolean, got ${describe(value)}` });
+      return;
+    case 'literal':
+      if (!node.values.includes(value as Primitive)) {
+        issues.push({ path, message: `expected one of ${node.values.map((v) => JSON.stringify(v)).join(', ')}, got ${JSON.stringify(value)}` });
+      }
+      return;
+    case 'array':
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected array, got ${describe(value)}` });
+        return;
+      }
+      if (node.minItems !== undefined && value.length < node.minItems) {
+        issues.push({ path, message: `expected at least ${node.minItems} item${node.minItems === 1 ? '' : 's'}, got ${value.length}` });
+      }
+      value.forEach((item, i) => check(node.items, item, `${path}[${i}]`, issues));
+      return;
+    case 'object':
+    case 'record': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        issues.push({ path, message: `expected object, got ${describe(value)}` });
+        return;
+      }
+      const o = value as Record<string, unknown>;
+      if (node.kind === 'record') {
+        for (const [k, v] of Object.entries(o)) check(node.values, v, `${path}.${k}`, issues);
+        return;
+      }
+      for (const [k, child] of Object.entries(node.shape)) {
+        if (!(k in o) && child.kind !== 'optional') {
+          issues.push({ path: `${path}.${k}`, message: 'missing required property' });
+          continue;
+        }
+        check(child, o[k], `${path}.${k}`, issues);
+      }
+      return;
+    }
+  }
+}
+
+/** Validate `value` against `node`; an empty array means valid. */
+export function validate(node: SchemaNode, value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  check(node, value, '$', issues);
+  return issues;
+}
+
+export function formatIssues(issues: SchemaIssue[], max: number = 5): string {
+  const shown = issues.slice(0, max).map((i) => `${i.path}: ${i.message}`);
+  if (issues.length > max) shown.push(`…and ${issues.length - max} more`);
+  return shown.join('; ');
+}
+
+export type JsonSchema = { [key: string]: unknown };
+
+/** Convert a schema to a JSON Schema (draft 2020-12) fragment. */
+export function toJsonSchema(node: SchemaNode): JsonSchema {
+  switch (node.kind) {
+    case 'unknown':
+      return {};
+    case 'optional':
+      return toJsonSchema(node.inner);
+    case 'nullable':
+      return { anyOf: [toJsonSchema(node.inner), { type: 'null' }] };
+    case 'union':
+      return { anyOf: node.options.map(toJsonSchema) };
+    case 'string':
+      return {
+        type: 'string',
+        ...(node.minLength !== undefined ? { minLength: node.minLength } : {}),
+        ...(node.pattern ? { pattern: node.pattern.source } : {}),
+        ...(node.format ? { format: node.format } : {})
+      };
+    case 'number':
+      return {
+        type: node.integer ? 'integer' : 'number',
+        ...(node.minimum !== undefined ? { minimum: node.minimum } : {})
+      };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'literal':
+      return node.values.length === 1 ? { const: node.values[0] } : { enum: [...node.values] };
+    case 'array':
+      return {
+        type: 'array',
+        items: toJsonSchema(node.items),
+        ...(node.minItems !== undefined ? { minItems: node.minItems } : {})
+      };
+    case 'record':
+      return { type: 'object', additionalProperties: toJsonSchema(node.values) };
+    case 'object': {
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [k, child] of Object.entries(node.shape)) {
+        properties[k] = toJsonSchema(child);
+        if (child.kind !== 'optional') required.push(k);
+      }
+      return { type: 'object', properties, required };
+    }
+  }
+}
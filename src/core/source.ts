@@ -0,0 +1,128 @@
+import { configError, dataError } from './errors.js';
+import { writeJsonFile } from './io.js';
+import type { HistoryPolicy } from './archive.js';
+import type { DurationText } from './freshness.js';
+import { createLogger, type Logger } from './log.js';
+import { projectPath, projectRoot } from './paths.js';
+import { formatIssues, validate, type SchemaNode } from './schema.js';
+import { normalizeWhitespace } from './text.js';
+
+/** Everything a source needs from the runtime; passed to fetch and normalize. */
+export type SourceContext = {
+  name: string;
+  log: Logger;
+  /** Start of the run; use instead of `new Date()` so all outputs agree. */
+  now: Date;
+  projectRoot: string;
+  /** Absolute path for a project-relative path. */
+  path(...segments: string[]): string;
+  /** Required env var, whitespace-normalized. Missing/empty throws a config error. */
+  env(name: string): string;
+  /** Optional env var, whitespace-normalized; null when missing or empty. */
+  optionalEnv(name: string): string | null;
+};
+
+/** One JSON file a source produces, relative to the project root. */
+export type OutputFile = {
+  path: string;
+  data: unknown;
+  /** Short human summary appended to the "Wrote ..." log line. */
+  summary?: string;
+};
+
+/** A file a source writes. When `schema` is set, output is validated before anything is written. */
+export type OutputSpec = {
+  path: string;
+  schema?: SchemaNode;
+  /** How often the file is expected to change (matches the workflow schedule); drives staleness in the index. */
+  refreshEvery?: DurationText;
+  /** Retention for api/history snapshots; defaults to DEFAULT_HISTORY_POLICY. */
+  history?: HistoryPolicy;
+};
+
+/**
+ * A data source: fetch acquires raw input (remote API or local file),
+ * normalize turns it into the files to write. The runtime owns writing,
+ * logging and error handling.
+ */
+export type SourceModule<TRaw = unknown> = {
+  name: string;
+  description: string;
+  /** Files this source writes, for validation and `kochu status`. */
+  outputs: OutputSpec[];
+  fetch(ctx: SourceContext): Promise<TRaw>;
+  normalize(raw: TRaw, ctx: SourceContext): OutputFile[] | Promise<OutputFile[]>;
+};
+
+export function defineSource<TRaw>(source: SourceModule<TRaw>): SourceModule<TRaw> {
+  return source;
+}
+
+export type RunOptions = {
+  /** Fetch and normalize, but do not write any files. */
+  dryRun?: boolean;
+  now?: Date;
+};
+
+export type RunResult = {
+  name: string;
+  files: OutputFile[];
+  written: boolean;
+  durationMs: number;
+};
+
+export function createContext(name: string, now: Date = new Date()): SourceContext {
+  const optionalEnv = (key: string): string | null => {
+    const v = process.env[key];
+    if (!v || !normalizeWhitespace(v)) return null;
+    return normalizeWhitespace(v);
+  };
+  return {
+    name,
+    log: createLogger(name),
+    now,
+    projectRoot,
+    path: projectPath,
+    env(key) {
+      const v = optionalEnv(key);
+      if (v === null) {
+        throw configError(`Missing or empty ${key}.`, { hint: 'Set the env var and try again.' });
+      }
+      return v;
+    },
+    optionalEnv
+  };
+}
+
+export async function runSource<TRaw>(source: SourceModule<TRaw>, options: RunOptions = {}): Promise<RunResult> {
+  const started = Date.now();
+  const ctx = createContext(source.name, options.now);
+
+  const raw = await source.fetch(ctx);
+  const files = await source.normalize(raw, ctx);
+
+  // Validate everything first so a bad file never leaves a half-written run behind.
+  for (const file of files) {
+    const spec = source.outputs.find((o) => o.path === file.path);
+    if (!spec) {
+      ctx.log.warn(`${file.path} is not declared in outputs`);
+      continue;
+    }
+    if (!spec.schema) continue;
+    const issues = validate(spec.schema, file.data);
+    if (issues.length > 0) {
+      throw dataError(`${file.path} failed schema validation: ${formatIssues(issues)}`, {
+        details: { issues: issues.length }
+      });
+    }
+  }
+
+  if (!options.dryRun) {
+    for (const file of files) {
+      await writeJsonFile(ctx.path(file.path), file.data);
+      ctx.log.info(`Wrote ${file.path}${file.summary ? ` (${file.summary})` : ''}`);
+    }
+  }
+
+  return { name: source.name, files, written: !options.dryRun, durationMs: Date.now() - started };
+}
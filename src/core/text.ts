@@ -0,0 +1,16 @@
+/** Trim and collapse internal whitespace. */
+export function normalizeWhitespace(str: string): string {
+  return str.trim().replace(/\s+/g, ' ');
+}
+
+/** Safe snippet for error messages: no secrets, limited length. */
+export function safeSnippet(text: string, maxLen: number = 200): string {
+  const s = String(text).trim();
+  if (s.length <= maxLen) return s;
+  return s.slice(0, maxLen) + '...';
+}
+
+/** Pad number to 2 digits. */
+export function pad2(n: number): string {
+  return n.toString().padStart(2, '0');
+}
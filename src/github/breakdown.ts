@@ -0,0 +1,190 @@
+import { schema, type Schema } from '../core/index.js';
+import { githubGraphql, rangeVariables, type DateRange } from './graphql.js';
+
+/*
+ * What kind of contributions a week held: commits, PRs, reviews and issues,
+ * per repository and language. Repositories can be hidden with an
+ * allowlist/denylist; private ones are hidden unless allowlisted. Hidden
+ * repositories still count towards the type totals and `hidden`, but are
+ * never named and don't contribute to `languages`.
+ */
+
+export type RepoContributions = {
+  repository: string;
+  private: boolean;
+  language: string | null;
+  commits: number;
+  pullRequests: number;
+  reviews: number;
+  issues: number;
+  total: number;
+};
+
+export type WeekBreakdown = {
+  commits: number;
+  pullRequests: number;
+  reviews: number;
+  issues: number;
+  /** Contributions to hidden repositories. */
+  hidden: number;
+  repositories: RepoContributions[];
+  /** Contributions per primary language of the visible repositories. */
+  languages: Record<string, number>;
+};
+
+export type RepoFilter = { allow: string[]; deny: string[] };
+
+export const weekBreakdownSchema: Schema<WeekBreakdown> = schema.object({
+  commits: schema.integer({ minimum: 0 }),
+  pullRequests: schema.integer({ minimum: 0 }),
+  reviews: schema.integer({ minimum: 0 }),
+  issues: schema.integer({ minimum: 0 }),
+  hidden: schema.integer({ minimum: 0 }),
+  repositories: schema.array(
+    schema.object({
+      repository: schema.string({ minLength: 1 }),
+      private: schema.boolean(),
+      language: schema.nullable(schema.string()),
+      commits: schema.integer({ minimum: 0 }),
+      pullRequests: schema.integer({ minimum: 0 }),
+      reviews: schema.integer({ minimum: 0 }),
+      issues: schema.integer({ minimum: 0 }),
+      total: schema.integer({ minimum: 0 })
+    })
+  ),
+  languages: schema.record(schema.integer({ minimum: 0 }))
+});
+
+/** Weeks per request; each week is an aliased contributionsCollection. */
+const WEEKS_PER_REQUEST = 8;
+
+const BY_REPOSITORY = `repository { nameWithOwner isPrivate primaryLanguage { name } } contributions { totalCount }`;
+
+const BREAKDOWN_FRAGMENT = `
+fragment Breakdown on ContributionsCollection {
+  totalCommitContributions
+  totalPullRequestContributions
+  totalPullRequestReviewContributions
+  totalIssueContributions
+  commitContributionsByRepository(maxRepositories: 100) { ${BY_REPOSITORY} }
+  pullRequestContributionsByRepository(maxRepositories: 100) { ${BY_REPOSITORY} }
+  pullRequestReviewContributionsByRepository(maxRepositories: 100) { ${BY_REPOSITORY} }
+  issueContributionsByRepository(maxRepositories: 100) { ${BY_REPOSITORY} }
+}
+`;
+
+type ByRepository = {
+  repository: { nameWithOwner: string; isPrivate: boolean; primaryLanguage: { name: string } | null };
+  contributions: { totalCount: number };
+}[];
+
+type CollectionData = {
+  totalCommitContributions: number;
+  totalPullRequestContributions: number;
+  totalPullRequestReviewContributions: number;
+  totalIssueContributions: number;
+  commitContributionsByRepository: ByRepository;
+  pullRequestContributionsByRepository: ByRepository;
+  pullRequestReviewContributionsByRepository: ByRepository;
+  issueContributionsByRepository: ByRepository;
+};
+
+function toBreakdown(c: CollectionData): WeekBreakdown {
+  const repos = new Map<string, RepoContributions>();
+  const add = (list: ByRepository, key: 'commits' | 'pullRequests' | 'reviews' | 'issues') => {
+    for (const { repository, contributions } of list ?? []) {
+      const repo = repos.get(repository.nameWithOwner) ?? {
+        repository: repository.nameWithOwner,
+        private: repository.isPrivate,
+        language: repository.primaryLanguage?.name ?? null,
+        commits: 0,
+        pullRequests: 0,
+        reviews: 0,
+        issues: 0,
+        total: 0
+      };
+      repo[key] += contributions.totalCount;
+      repo.total += contributions.totalCount;
+      repos.set(repository.nameWithOwner, repo);
+    }
+  };
+  add(c.commitContributionsByRepository, 'commits');
+  add(c.pullRequestContributionsByRepository, 'pullRequests');
+  add(c.pullRequestReviewContributionsByRepository, 'reviews');
+  add(c.issueContributionsByRepository, 'issues');
+
+  return {
+    commits: c.totalCommitContributions,
+    pullRequests: c.totalPullRequestContributions,
+    reviews: c.totalPullRequestReviewContributions,
+    issues: c.totalIssueContributions,
+    hidden: 0,
+    repositories: [...repos.values()],
+    languages: {}
+  };
+}
+
+/** Breakdowns for whole weeks, keyed by weekStart. Unfiltered; apply filterBreakdown before publishing. */
+export async function fetchWeekBreakdowns(
+  login: string,
+  weeks: DateRange[],
+  timeZone: string,
+  token: string
+): Promise<Map<string, WeekBreakdown>> {
+  const out = new Map<string, WeekBreakdown>();
+  for (let i = 0; i < weeks.length; i += WEEKS_PER_REQUEST) {
+    const batch = weeks.slice(i, i + WEEKS_PER_REQUEST);
+    const variables: Record<string, unknown> = { login };
+    const params: string[] = ['$login: String!'];
+    const fields: string[] = [];
+    batch.forEach((week, j) => {
+      const { from, to } = rangeVariables(week, timeZone);
+      variables[`from${j}`] = from;
+      variables[`to${j}`] = to;
+      params.push(`$from${j}: DateTime!`, `$to${j}: DateTime!`);
+      fields.push(`w${j}: contributionsCollection(from: $from${j}, to: $to${j}) { ...Breakdown }`);
+    });
+    const query = `query(${params.join(', ')}) {\n  user(login: $login) {\n    ${fields.join('\n    ')}\n  }\n}\n${BREAKDOWN_FRAGMENT}`;
+
+    const data = await githubGraphql<{ user: Record<string, CollectionData> | null }>(token, query, variables);
+    batch.forEach((week, j) => {
+      const collection = data.user?.[`w${j}`];
+      if (collection) out.set(week.from, toBreakdown(collection));
+    });
+  }
+  return out;
+}
+
+/** "owner/repo" patterns, `*` matching any run of characters, case-insensitive. */
+function matches(patterns: string[], repository: string): boolean {
+  return patterns.some((p) => {
+    const re = new RegExp(`^${p.split('*').map((s) => s.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+    return re.test(repository);
+  });
+}
+
+export function parseRepoList(value: string | null): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Hide repositories per the filter and recompute languages. Idempotent, so it
+ * can be re-applied to stored weeks when the lists change. It can only hide
+ * more: repos a stored week already hid are gone until that week is refetched.
+ */
+export function filterBreakdown(b: WeekBreakdown, filter: RepoFilter): WeekBreakdown {
+  const visible = (r: RepoContributions) =>
+    (filter.allow.length > 0 ? matches(filter.allow, r.repository) : !r.private) && !matches(filter.deny, r.repository);
+
+  const shown = b.repositories.filter(visible).sort((x, y) => y.total - x.total || x.repository.localeCompare(y.repository));
+  const hiddenNow = b.repositories.filter((r) => !visible(r)).reduce((sum, r) => sum + r.total, 0);
+
+  const languages: Record<string, number> = {};
+  for (const r of shown) {
+    if (r.language) languages[r.language] = (languages[r.language] ?? 0) + r.total;
+  }
+  return { ...b, hidden: b.hidden + hiddenNow, repositories: shown, languages };
+}
@@ -1,91 +1,83 @@
-import { mkdir, readFile, writeFile } from 'node:fs/promises';
-import { dirname, join } from 'node:path';
-import { fileURLToPath } from 'node:url';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
-const TZ = 'America/New_York';
-
-/** True if (year, month 1-12, day) is in DST for America/New_York (US rule). */
-function isDST(year: number, month: number, day: number): boolean {
-  if (month < 3 || month > 11) return false;
-  if (month > 3 && month < 11) return true;
-  const d = day;
-  if (month === 3) {
-    const first = new Date(year, 2, 1).getDay();
-    const secondSunday = 1 + (7 - first) % 7 + 7;
-    return d >= secondSunday;
-  }
-  const first = new Date(year, 10, 1).getDay();
-  const firstSunday = 1 + (7 - first) % 7;
-  return d < firstSunday;
-}
+import {
+  addDays,
+  configError,
+  defineSource,
+  isoWeekday,
+  previousWeek,
+  readJsonFileOr,
+  resolveTimeZone,
+  runSourceScript,
+  schema,
+  upstreamError,
+  weekOf,
+  type Schema,
+  type SourceContext
+} from '../core/index.js';
+import { fetchWeekBreakdowns, filterBreakdown, parseRepoList, weekBreakdownSchema, type WeekBreakdown } from './breakdown.js';
+import { githubGraphql, rangeVariables, type DateRange } from './graphql.js';
 
-/** Pad number to 2 digits. */
-function pad2(n: number): string {
-  return n.toString().padStart(2, '0');
-}
+export type DayEntry = { date: string; count: number };
+export type WeekEntry = {
+  weekStart: string;
+  weekEnd: string;
+  totalContributions: number;
+  /** By type, repository and language; absent for weeks fetched before breakdowns existed. */
+  breakdown?: WeekBreakdown;
+  days: DayEntry[];
+};
 
-/**
- * Get the most recent Monday 00:00:00 America/New_York as an ISO string (UTC).
- * "Most recent" means the latest Monday 00:00 ET that has already occurred.
- */
-function getLastMondayMidnightET(): { start: string; end: string; weekStart: string; weekEnd: string } {
-  const now = new Date();
-  const fmt = new Intl.DateTimeFormat('en-CA', {
-    timeZone: TZ,
-    year: 'numeric',
-    month: '2-digit',
-    day: '2-digit',
-    weekday: 'short'
-  });
-  const parts = fmt.formatToParts(now);
-  const get = (name: string) => parts.find((p) => p.type === name)?.value ?? '';
-  const year = parseInt(get('year'), 10);
-  const month = parseInt(get('month'), 10);
-  const day = parseInt(get('day'), 10);
-  const weekday = get('weekday');
-
-  const dayOfWeek = weekday === 'Mon' ? 1 : weekday === 'Tue' ? 2 : weekday === 'Wed' ? 3 : weekday === 'Thu' ? 4 : weekday === 'Fri' ? 5 : weekday === 'Sat' ? 6 : 7;
-  const daysToMonday = dayOfWeek === 1 ? 0 : dayOfWeek - 1;
-  let monDay = day - daysToMonday;
-  let monMonth = month;
-  let monYear = year;
-  if (monDay < 1) {
-    monDay += 31;
-    monMonth--;
-    if (monMonth < 1) {
-      monMonth = 12;
-      monYear--;
-    }
-  }
+/** Consecutive days with at least one contribution. */
+export type Streak = { days: number; start: string | null; end: string | null };
 
-  const offsetHours = isDST(monYear, monMonth, monDay) ? -4 : -5;
-  const offsetStr = offsetHours <= 0 ? `-${pad2(Math.abs(offsetHours))}` : `+${pad2(offsetHours)}`;
-  const endISO = `${monYear}-${pad2(monMonth)}-${pad2(monDay)}T00:00:00${offsetStr}:00`;
-  const endDate = new Date(endISO);
+export type ContributionStats = {
+  totalContributions: number;
+  /** The streak running through the last recorded day (0 if that day had none). */
+  currentStreak: Streak;
+  longestStreak: Streak;
+  /** Weekday with the highest average count. */
+  busiestWeekday: { weekday: string; total: number; average: number } | null;
+  /** Mean weekly total over the last four weeks. */
+  rolling4WeekAverage: number | null;
+};
 
-  const startDate = new Date(endDate);
-  startDate.setUTCDate(startDate.getUTCDate() - 7);
-  const startISO = startDate.toISOString();
-  const endISOUTC = endDate.toISOString();
+export type ContributionsOutput = { updatedAt: string; timezone: string; stats?: ContributionStats; weeks: WeekEntry[] };
 
-  const startY = startDate.getUTCFullYear();
-  const startM = pad2(startDate.getUTCMonth() + 1);
-  const startD = pad2(startDate.getUTCDate());
-  const weekStart = `${startY}-${startM}-${startD}`;
-
-  const sundayDate = new Date(endDate);
-  sundayDate.setUTCDate(sundayDate.getUTCDate() - 1);
-  const weekEnd = `${sundayDate.getUTCFullYear()}-${pad2(sundayDate.getUTCMonth() + 1)}-${pad2(sundayDate.getUTCDate())}`;
-
-  return { start: startISO, end: endISOUTC, weekStart, weekEnd };
-}
+const streakSchema: Schema<Streak> = schema.object({
+  days: schema.integer({ minimum: 0 }),
+  start: schema.nullable(schema.string({ format: 'date' })),
+  end: schema.nullable(schema.string({ format: 'date' }))
+});
 
-type DayEntry = { date: string; count: number };
-type WeekEntry = { weekStart: string; weekEnd: string; totalContributions: number; days: DayEntry[] };
-type Output = { updatedAt: string; timezone: string; weeks: WeekEntry[] };
+export const contributionsOutputSchema: Schema<ContributionsOutput> = schema.object({
+  updatedAt: schema.string({ format: 'date-time' }),
+  timezone: schema.string({ minLength: 1 }),
+  // Optional so archived versions from before streak statistics still validate.
+  stats: schema.optional(
+    schema.object({
+      totalContributions: schema.integer({ minimum: 0 }),
+      currentStreak: streakSchema,
+      longestStreak: streakSchema,
+      busiestWeekday: schema.nullable(
+        schema.object({
+          weekday: schema.string({ minLength: 1 }),
+          total: schema.integer({ minimum: 0 }),
+          average: schema.number({ minimum: 0 })
+        })
+      ),
+      rolling4WeekAverage: schema.nullable(schema.number({ minimum: 0 }))
+    })
+  ),
+  weeks: schema.array(
+    schema.object({
+      weekStart: schema.string({ format: 'date' }),
+      weekEnd: schema.string({ format: 'date' }),
+      totalContributions: schema.integer({ minimum: 0 }),
+      breakdown: schema.optional(weekBreakdownSchema),
+      days: schema.array(schema.object({ date: schema.string({ format: 'date' }), count: schema.integer({ minimum: 0 }) }))
+    }),
+    { minItems: 1 }
+  )
+});
 
 const GRAPHQL_QUERY = `
 query($login: String!, $from: DateTime!, $to: DateTime!) {
@@ -104,107 +96,215 @@ query($login: String!, $from: DateTime!, $to: DateTime!) {
 }
 `;
 
-async function fetchContributions(login: string, from: string, to: string, token: string): Promise<WeekEntry> {
-  const res = await fetch('https://api.github.com/graphql', {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${token}`,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({
-      query: GRAPHQL_QUERY,
-      variables: { login, from, to }
-    })
-  });
-
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`GitHub GraphQL request failed: ${res.status} ${res.statusText}. ${text}`);
-  }
+/** GitHub rejects contributionsCollection ranges longer than a year; 52 weeks stays under it. */
+const MAX_WEEKS_PER_REQUEST = 52;
+/** Recent weeks re-fetched on every run, since GitHub can attribute contributions late. */
+const REFRESH_WEEKS = 4;
 
-  type GqlResponse = {
-    data?: { user?: { contributionsCollection?: { contributionCalendar?: { weeks?: { contributionDays?: { date: string; contributionCount: number }[] }[] } } } };
-    errors?: { message: string }[];
+async function fetchContributionDays(login: string, range: DateRange, timeZone: string, token: string): Promise<DayEntry[]> {
+  type CalendarData = {
+    user?: { contributionsCollection?: { contributionCalendar?: { weeks?: { contributionDays?: { date: string; contributionCount: number }[] }[] } } };
   };
-  const json = (await res.json()) as GqlResponse;
-
-  if (json.errors && json.errors.length > 0) {
-    const messages = json.errors.map((e: { message: string }) => e.message).join('; ');
-    throw new Error(`GraphQL errors: ${messages}`);
-  }
-
-  const user = json.data?.user;
+  const { user } = await githubGraphql<CalendarData>(token, GRAPHQL_QUERY, { login, ...rangeVariables(range, timeZone) });
   if (!user) {
-    throw new Error('User not found or no data returned.');
+    throw upstreamError('User not found or no data returned.');
   }
 
-  const weeks = user.contributionsCollection?.contributionCalendar?.weeks ?? [];
   const days: DayEntry[] = [];
-  let totalContributions = 0;
-  for (const w of weeks) {
+  for (const w of user.contributionsCollection?.contributionCalendar?.weeks ?? []) {
     for (const d of w.contributionDays ?? []) {
-      days.push({ date: d.date, count: d.contributionCount });
-      totalContributions += d.contributionCount;
+      if (d.date >= range.from && d.date <= range.to) days.push({ date: d.date, count: d.contributionCount });
     }
   }
-  days.sort((a, b) => a.date.localeCompare(b.date));
+  return days;
+}
 
-  const boundaries = getLastMondayMidnightET();
-  return {
-    weekStart: boundaries.weekStart,
-    weekEnd: boundaries.weekEnd,
-    totalContributions,
-    days
-  };
+/** Split a range into requests of at most MAX_WEEKS_PER_REQUEST weeks. */
+function pages(range: DateRange): DateRange[] {
+  const out: DateRange[] = [];
+  for (let from = range.from; from <= range.to; from = addDays(from, MAX_WEEKS_PER_REQUEST * 7)) {
+    const to = addDays(from, MAX_WEEKS_PER_REQUEST * 7 - 1);
+    out.push({ from, to: to < range.to ? to : range.to });
+  }
+  return out;
 }
 
-async function main() {
-  const token = process.env.GITHUB_TOKEN;
-  if (!token || !token.trim()) {
-    console.error('Missing or empty GITHUB_TOKEN. Set the env var and try again.');
-    process.exit(1);
+function parseDateEnv(name: string, value: string | null): string | null {
+  if (!value) return null;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw configError(`${name} must be a YYYY-MM-DD date, got "${value}"`);
   }
+  return value;
+}
 
-  const username = process.env.GITHUB_USERNAME?.trim() || 'saiyyamkochar-29';
+/**
+ * What to fetch this run. Backfill (CONTRIBUTIONS_BACKFILL_FROM, optionally
+ * _TO) takes an explicit range; otherwise everything after the last stored
+ * day, and at least the last REFRESH_WEEKS weeks, up to the last complete week.
+ */
+function planRange(ctx: SourceContext, timeZone: string, existing: ContributionsOutput | null): DateRange {
+  const last = previousWeek(ctx.now, timeZone);
+  const backfillFrom = parseDateEnv('CONTRIBUTIONS_BACKFILL_FROM', ctx.optionalEnv('CONTRIBUTIONS_BACKFILL_FROM'));
+  const backfillTo = parseDateEnv('CONTRIBUTIONS_BACKFILL_TO', ctx.optionalEnv('CONTRIBUTIONS_BACKFILL_TO'));
 
-  const boundaries = getLastMondayMidnightET();
-  const weekEntry = await fetchContributions(username, boundaries.start, boundaries.end, token);
+  if (backfillFrom) {
+    const to = backfillTo && backfillTo < last.weekEnd ? weekOf(backfillTo, timeZone).weekEnd : last.weekEnd;
+    const range = { from: weekOf(backfillFrom, timeZone).weekStart, to };
+    if (range.from > range.to) {
+      throw configError(`Nothing to backfill between ${backfillFrom} and ${to}.`, {
+        hint: 'CONTRIBUTIONS_BACKFILL_FROM must be before the current week.'
+      });
+    }
+    return range;
+  }
 
-  const projectRoot = join(__dirname, '../..');
-  const outputPath = join(projectRoot, 'api', 'contributions.json');
+  let from = addDays(last.weekStart, -7 * (REFRESH_WEEKS - 1));
+  const stored = (existing?.weeks ?? []).flatMap((w) => w.days.map((d) => d.date)).sort();
+  const lastStored = stored[stored.length - 1];
+  if (lastStored && lastStored < from) from = weekOf(addDays(lastStored, 1), timeZone).weekStart;
+  return { from, to: last.weekEnd };
+}
 
-  let existing: Output = {
-    updatedAt: '',
-    timezone: TZ,
-    weeks: []
-  };
+/** Group days into Monday-to-Sunday weeks. */
+function toWeeks(days: Map<string, number>, timeZone: string): WeekEntry[] {
+  const weeks = new Map<string, WeekEntry>();
+  for (const [date, count] of [...days].sort(([a], [b]) => a.localeCompare(b))) {
+    const { weekStart, weekEnd } = weekOf(date, timeZone);
+    const week = weeks.get(weekStart) ?? { weekStart, weekEnd, totalContributions: 0, days: [] };
+    week.days.push({ date, count });
+    week.totalContributions += count;
+    weeks.set(weekStart, week);
+  }
+  return [...weeks.values()];
+}
+
+const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
 
-  try {
-    const raw = await readFile(outputPath, 'utf-8');
-    const parsed = JSON.parse(raw) as Output;
-    if (parsed && Array.isArray(parsed.weeks)) {
-      existing = parsed;
+function computeStats(weeks: WeekEntry[]): ContributionStats {
+  const days = weeks.flatMap((w) => w.days);
+  const totalContributions = days.reduce((sum, d) => sum + d.count, 0);
+
+  // A gap in the data breaks a streak just like a day without contributions.
+  let longest: Streak = { days: 0, start: null, end: null };
+  let run: Streak = { days: 0, start: null, end: null };
+  let prevDate: string | null = null;
+  for (const d of days) {
+    if (d.count > 0 && run.days > 0 && prevDate !== null && addDays(prevDate, 1) === d.date) {
+      run = { days: run.days + 1, start: run.start, end: d.date };
+    } else if (d.count > 0) {
+      run = { days: 1, start: d.date, end: d.date };
+    } else {
+      run = { days: 0, start: null, end: null };
     }
-  } catch {
-    // file missing or invalid; use default
+    if (run.days > longest.days) longest = run;
+    prevDate = d.date;
   }
 
-  const weekStarts = new Set(existing.weeks.map((w) => w.weekStart));
-  if (!weekStarts.has(weekEntry.weekStart)) {
-    existing.weeks.push(weekEntry);
-    existing.weeks.sort((a, b) => a.weekStart.localeCompare(b.weekStart));
+  const byWeekday = WEEKDAYS.map(() => ({ total: 0, days: 0 }));
+  for (const d of days) {
+    const slot = byWeekday[isoWeekday(d.date) - 1];
+    slot.total += d.count;
+    slot.days++;
   }
-  existing.updatedAt = new Date().toISOString();
-  existing.timezone = TZ;
-
-  await mkdir(dirname(outputPath), { recursive: true });
-  await writeFile(outputPath, JSON.stringify(existing, null, 2) + '\n', 'utf-8');
-  console.log(
-    `Wrote api/contributions.json (week ${weekEntry.weekStart}–${weekEntry.weekEnd}, ${weekEntry.totalContributions} contributions)`
-  );
+  let busiestWeekday: ContributionStats['busiestWeekday'] = null;
+  byWeekday.forEach((slot, i) => {
+    if (slot.days === 0) return;
+    const average = Math.round((slot.total / slot.days) * 100) / 100;
+    if (!busiestWeekday || average > busiestWeekday.average) {
+      busiestWeekday = { weekday: WEEKDAYS[i], total: slot.total, average };
+    }
+  });
+
+  const recent = weeks.slice(-4);
+  return {
+    totalContributions,
+    currentStreak: run,
+    longestStreak: longest,
+    busiestWeekday,
+    rolling4WeekAverage:
+      recent.length > 0 ? Math.round((recent.reduce((sum, w) => sum + w.totalContributions, 0) / recent.length) * 100) / 100 : null
+  };
 }
 
-main().catch((err) => {
-  console.error('Fatal error:', err instanceof Error ? err.message : String(err));
-  process.exit(1);
+export const contributionsSource = defineSource({
+  name: 'contributions',
+  description: 'Weekly GitHub contribution counts (Monday-to-Sunday in the home time zone)',
+  outputs: [
+    {
+      path: 'api/contributions.json',
+      schema: contributionsOutputSchema,
+      refreshEvery: '1w',
+      // weeks[] is already append-only history; snapshots only need to cover recent edits.
+      history: { keepDailyDays: 28, keepMonthlyMonths: 12 }
+    }
+  ],
+  async fetch(ctx) {
+    const token = ctx.env('GITHUB_TOKEN');
+    const username = ctx.optionalEnv('GITHUB_USERNAME') || 'saiyyamkochar-29';
+
+    const { timeZone } = await resolveTimeZone();
+    const read = await readJsonFileOr<ContributionsOutput | null>(ctx.path('api', 'contributions.json'), null);
+    const existing = read && Array.isArray(read.weeks) ? read : null;
+
+    const range = planRange(ctx, timeZone, existing);
+    const fetched: DayEntry[] = [];
+    for (const page of pages(range)) {
+      ctx.log.info(`Fetching contributions ${page.from}–${page.to}`);
+      fetched.push(...(await fetchContributionDays(username, page, timeZone, token)));
+    }
+
+    const weeks: DateRange[] = [];
+    for (let from = range.from; from <= range.to; from = addDays(from, 7)) weeks.push({ from, to: addDays(from, 6) });
+    const breakdowns = await fetchWeekBreakdowns(username, weeks, timeZone, token);
+
+    return { timeZone, range, fetched, breakdowns, existing };
+  },
+  normalize({ timeZone, range, fetched, breakdowns, existing }, ctx) {
+    const before = new Map((existing?.weeks ?? []).map((w) => [w.weekStart, JSON.stringify(w)]));
+
+    // Rebuilding weeks from days also repairs entries stored under the old,
+    // misaligned boundaries. Nothing after the last complete week is kept.
+    const lastWeekEnd = previousWeek(ctx.now, timeZone).weekEnd;
+    const days = new Map<string, number>();
+    for (const w of existing?.weeks ?? []) {
+      for (const d of w.days) if (d.date <= lastWeekEnd) days.set(d.date, d.count);
+    }
+    for (const d of fetched) days.set(d.date, d.count);
+    const filter = {
+      allow: parseRepoList(ctx.optionalEnv('CONTRIBUTIONS_REPO_ALLOWLIST')),
+      deny: parseRepoList(ctx.optionalEnv('CONTRIBUTIONS_REPO_DENYLIST'))
+    };
+    // Stored breakdowns are re-filtered so a newly denied repo drops out of past weeks; refetched weeks start unfiltered.
+    const known = new Map((existing?.weeks ?? []).flatMap((w) => (w.breakdown ? [[w.weekStart, w.breakdown] as const] : [])));
+    for (const [weekStart, b] of breakdowns) known.set(weekStart, b);
+
+    const weeks = toWeeks(days, timeZone).map((w): WeekEntry => {
+      const b = known.get(w.weekStart);
+      return b ? { weekStart: w.weekStart, weekEnd: w.weekEnd, totalContributions: w.totalContributions, breakdown: filterBreakdown(b, filter), days: w.days } : w;
+    });
+
+    const added = weeks.filter((w) => !before.has(w.weekStart)).length;
+    const updated = weeks.filter((w) => before.has(w.weekStart) && before.get(w.weekStart) !== JSON.stringify(w)).length;
+    const incomplete = weeks.filter((w) => w.days.length < 7).map((w) => w.weekStart);
+    if (incomplete.length > 0) {
+      ctx.log.warn('Some weeks are missing days; backfill to fill them', { weeks: incomplete.join(',') });
+    }
+
+    const output: ContributionsOutput = {
+      updatedAt: ctx.now.toISOString(),
+      timezone: timeZone,
+      stats: computeStats(weeks),
+      weeks
+    };
+
+    return [
+      {
+        path: 'api/contributions.json',
+        data: output,
+        summary: `${range.from}–${range.to}: ${added} weeks added, ${updated} updated`
+      }
+    ];
+  }
 });
+
+runSourceScript(import.meta.url, contributionsSource);
@@ -0,0 +1,34 @@
+import { addDays, fetchJson, startOfDay, upstreamError } from '../core/index.js';
+
+/** Local dates [from, to], both inclusive, always whole Monday-to-Sunday weeks. */
+export type DateRange = { from: string; to: string };
+
+/** contributionsCollection from/to for a local date range. */
+export function rangeVariables(range: DateRange, timeZone: string): { from: string; to: string } {
+  return {
+    from: startOfDay(range.from, timeZone).toISOString(),
+    // The end of the last day; the next midnight would pull in an extra Monday.
+    to: new Date(startOfDay(addDays(range.to, 1), timeZone).getTime() - 1000).toISOString()
+  };
+}
+
+/** POST a query to the GitHub GraphQL API; GraphQL-level errors become upstream errors. */
+export async function githubGraphql<T>(token: string, query: string, variables: Record<string, unknown>): Promise<T> {
+  const json = await fetchJson<{ data?: T; errors?: { message: string }[] }>('GitHub GraphQL', 'https://api.github.com/graphql', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ query, variables })
+  });
+
+  if (json.errors && json.errors.length > 0) {
+    const messages = json.errors.map((e) => e.message).join('; ');
+    throw upstreamError(`GraphQL errors: ${messages}`);
+  }
+  if (!json.data) {
+    throw upstreamError('GraphQL response had no data.');
+  }
+  return json.data;
+}
@@ -0,0 +1,332 @@
+import { createReadStream } from 'node:fs';
+import { isAbsolute, resolve } from 'node:path';
+import type { Readable } from 'node:stream';
+import {
+  defineSource,
+  findUpdatedAt,
+  readJsonFileOr,
+  resolveTimeZone,
+  runSourceScript,
+  type Logger,
+  type OutputFile
+} from '../core/index.js';
+import { stepsOutputSchema, type StepsOutput } from '../shortcuts/endpoints.js';
+import { mergeNights } from '../sleep/history.js';
+import { groupNights, parseStage, summarizeNight, type SleepNight, type SleepSample } from '../sleep/nights.js';
+import { scanTags, type XmlTag } from './xml-tags.js';
+import { openZipEntry } from './zip.js';
+
+/*
+ * Backfill from an Apple Health export (Health → profile → Export All Health
+ * Data). HEALTH_EXPORT points at export.zip or the export.xml inside it; the
+ * file is streamed, never loaded, since exports run to several GB.
+ *
+ * Steps, active energy, heart rate and workouts become per-day records in
+ * raw-data/health-days.json, dated by the wall clock the sample was recorded
+ * in. Sleep samples become nights in raw-data/sleep-nights.json, the same
+ * history the sleep source keeps, so `kochu run health sleep` regenerates
+ * api/sleep.json from them. api/steps.json is rewritten when the export is
+ * newer than what the Shortcut last wrote.
+ */
+
+export type HeartRateDay = { min: number; max: number; avg: number; resting: number | null };
+
+export type HealthDay = {
+  date: string;
+  steps: number | null;
+  activeEnergyKcal: number | null;
+  heartRate: HeartRateDay | null;
+  workouts: number;
+  workoutMinutes: number;
+};
+
+export type HealthWorkout = {
+  date: string;
+  /** e.g. "Running", from HKWorkoutActivityTypeRunning. */
+  type: string;
+  start: string;
+  end: string;
+  minutes: number;
+  energyKcal: number | null;
+  distanceKm: number | null;
+  source: string | null;
+};
+
+const STEPS = 'HKQuantityTypeIdentifierStepCount';
+const ACTIVE_ENERGY = 'HKQuantityTypeIdentifierActiveEnergyBurned';
+const HEART_RATE = 'HKQuantityTypeIdentifierHeartRate';
+const RESTING_HEART_RATE = 'HKQuantityTypeIdentifierRestingHeartRate';
+const SLEEP = 'HKCategoryTypeIdentifierSleepAnalysis';
+const TAGS: ReadonlySet<string> = new Set(['Record', 'Workout', 'WorkoutStatistics']);
+const PROGRESS_EVERY = 1_000_000;
+
+const KCAL_PER: Record<string, number> = { kcal: 1, Cal: 1, kJ: 1 / 4.184, cal: 0.001 };
+const KM_PER: Record<string, number> = { km: 1, m: 0.001, mi: 1.609344, yd: 0.0009144, ft: 0.0003048 };
+
+/** Per-day running totals; steps and energy are kept per source because the phone and the watch count the same walk. */
+type DayAccumulator = {
+  steps: Map<string, number>;
+  energy: Map<string, number>;
+  hr: { min: number; max: number; sum: number; n: number } | null;
+  resting: number[];
+  workouts: number;
+  workoutMinutes: number;
+};
+
+type RawHealth = {
+  timeZone: string;
+  days: HealthDay[];
+  workouts: HealthWorkout[];
+  sleep: SleepSample[];
+  storedNights: SleepNight[];
+  /** End of the latest step sample and that day's steps. */
+  latestSteps: { at: Date; date: string; steps: number } | null;
+  currentSteps: unknown;
+};
+
+/** "2024-01-01 08:00:00 -0500", Health's timestamp format. */
+export function parseHealthDate(s: string | undefined): Date | null {
+  const m = /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/.exec(s ?? '');
+  if (!m) return null;
+  const d = new Date(`${m[1]}T${m[2]}${m[3]}:${m[4]}`);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+function number(v: string | undefined): number | null {
+  const n = Number(v);
+  return v !== undefined && v !== '' && Number.isFinite(n) ? n : null;
+}
+
+function inUnit(value: string | undefined, unit: string | undefined, table: Record<string, number>): number | null {
+  const n = number(value);
+  const factor = table[unit ?? ''];
+  return n !== null && factor !== undefined ? n * factor : null;
+}
+
+function round(n: number, digits: number): number {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
+
+function roundOrNull(n: number | null, digits: number): number | null {
+  return n === null ? null : round(n, digits);
+}
+
+/** The most any single source counted; summing sources would count one walk twice. */
+function bestSource(bySource: Map<string, number>): number | null {
+  return bySource.size > 0 ? Math.max(...bySource.values()) : null;
+}
+
+function shortcutDate(date: Date, timeZone: string): string {
+  // Matches what the Shortcut writes: "Apr 16, 2026 at 11:15 PM".
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  })
+    .format(date)
+    .replace(/, (\d{1,2}:\d{2})/, ' at $1')
+    .replace(/[  ]/g, ' ');
+}
+
+async function openExport(path: string): Promise<{ name: string; stream: Readable }> {
+  if (!path.toLowerCase().endsWith('.zip')) return { name: path, stream: createReadStream(path) };
+  // Skip export_cda.xml, the clinical-document copy that sits next to it.
+  return openZipEntry(path, (name) => name === 'export.xml' || name.endsWith('/export.xml'));
+}
+
+async function readExport(path: string, log: Logger) {
+  const { name, stream } = await openExport(path);
+  log.info(`Reading ${name}`);
+
+  const days = new Map<string, DayAccumulator>();
+  const day = (date: string) => {
+    let d = days.get(date);
+    if (!d) {
+      d = { steps: new Map(), energy: new Map(), hr: null, resting: [], workouts: 0, workoutMinutes: 0 };
+      days.set(date, d);
+    }
+    return d;
+  };
+  const addTo = (bySource: Map<string, number>, source: string, n: number) => bySource.set(source, (bySource.get(source) ?? 0) + n);
+
+  const workouts: HealthWorkout[] = [];
+  const sleep: SleepSample[] = [];
+  let latestStepEnd: { at: Date; date: string } | null = null;
+  let workout: { attrs: Record<string, string>; energyKcal: number | null; distanceKm: number | null } | null = null;
+  let records = 0;
+
+  const finishWorkout = () => {
+    const open = workout;
+    workout = null;
+    if (!open) return;
+    const { attrs } = open;
+    const start = parseHealthDate(attrs.startDate);
+    const end = parseHealthDate(attrs.endDate);
+    if (!start || !end) return;
+    const date = attrs.startDate.slice(0, 10);
+    const minutes = inUnit(attrs.duration, attrs.durationUnit, { min: 1, s: 1 / 60, hr: 60 }) ?? (end.getTime() - start.getTime()) / 60000;
+    workouts.push({
+      date,
+      type: (attrs.workoutActivityType ?? '').replace(/^HKWorkoutActivityType/, '') || 'Other',
+      start: start.toISOString(),
+      end: end.toISOString(),
+      minutes: round(minutes, 1),
+      energyKcal: roundOrNull(open.energyKcal ?? inUnit(attrs.totalEnergyBurned, attrs.totalEnergyBurnedUnit, KCAL_PER), 1),
+      distanceKm: roundOrNull(open.distanceKm ?? inUnit(attrs.totalDistance, attrs.totalDistanceUnit, KM_PER), 2),
+      source: attrs.sourceName ?? null
+    });
+    const d = day(date);
+    d.workouts += 1;
+    d.workoutMinutes += minutes;
+  };
+
+  const onRecord = ({ attrs }: XmlTag) => {
+    const date = attrs.startDate?.slice(0, 10);
+    if (!date) return;
+    const source = attrs.sourceName ?? '';
+    switch (attrs.type) {
+      case STEPS: {
+        const n = number(attrs.value);
+        if (n === null) return;
+        addTo(day(date).steps, source, n);
+        const end = parseHealthDate(attrs.endDate);
+        if (end && (!latestStepEnd || end > latestStepEnd.at)) latestStepEnd = { at: end, date };
+        return;
+      }
+      case ACTIVE_ENERGY: {
+        const kcal = inUnit(attrs.value, attrs.unit, KCAL_PER);
+        if (kcal !== null) addTo(day(date).energy, source, kcal);
+        return;
+      }
+      case HEART_RATE: {
+        const bpm = number(attrs.value);
+        if (bpm === null) return;
+        const d = day(date);
+        d.hr = d.hr
+          ? { min: Math.min(d.hr.min, bpm), max: Math.max(d.hr.max, bpm), sum: d.hr.sum + bpm, n: d.hr.n + 1 }
+          : { min: bpm, max: bpm, sum: bpm, n: 1 };
+        return;
+      }
+      case RESTING_HEART_RATE: {
+        const bpm = number(attrs.value);
+        if (bpm !== null) day(date).resting.push(bpm);
+        return;
+      }
+      case SLEEP: {
+        const start = parseHealthDate(attrs.startDate);
+        const end = parseHealthDate(attrs.endDate);
+        const stage = parseStage(attrs.value ?? '');
+        if (start && end && stage && end > start) sleep.push({ start, end, stage });
+        return;
+      }
+    }
+  };
+
+  for await (const tag of scanTags(stream, TAGS)) {
+    if (tag.name === 'Record') {
+      if (tag.closing) continue;
+      onRecord(tag);
+      if (++records % PROGRESS_EVERY === 0) log.info(`${records.toLocaleString('en-US')} records read`);
+    } else if (tag.name === 'Workout') {
+      if (tag.closing) {
+        finishWorkout();
+        continue;
+      }
+      workout = { attrs: tag.attrs, energyKcal: null, distanceKm: null };
+      if (tag.selfClosing) finishWorkout();
+    } else if (workout && !tag.closing) {
+      // Newer exports put a workout's totals in WorkoutStatistics children instead of attributes.
+      const { type, sum, unit } = tag.attrs;
+      if (type === ACTIVE_ENERGY) workout.energyKcal = inUnit(sum, unit, KCAL_PER);
+      else if (type?.startsWith('HKQuantityTypeIdentifierDistance')) workout.distanceKm = inUnit(sum, unit, KM_PER);
+    }
+  }
+  log.info(`${records.toLocaleString('en-US')} records, ${workouts.length} workouts, ${sleep.length} sleep samples`);
+
+  const healthDays: HealthDay[] = [...days.entries()]
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([date, d]) => {
+      const steps = bestSource(d.steps);
+      const energy = bestSource(d.energy);
+      return {
+        date,
+        steps: steps === null ? null : Math.round(steps),
+        activeEnergyKcal: energy === null ? null : Math.round(energy),
+        heartRate: d.hr
+          ? {
+              min: Math.round(d.hr.min),
+              max: Math.round(d.hr.max),
+              avg: Math.round(d.hr.sum / d.hr.n),
+              resting: d.resting.length > 0 ? Math.round(d.resting.reduce((s, v) => s + v, 0) / d.resting.length) : null
+            }
+          : null,
+        workouts: d.workouts,
+        workoutMinutes: Math.round(d.workoutMinutes)
+      };
+    });
+
+  const latest = latestStepEnd as { at: Date; date: string } | null;
+  const latestDay = latest ? healthDays.find((d) => d.date === latest.date) : undefined;
+  return {
+    days: healthDays,
+    workouts: workouts.sort((a, b) => a.start.localeCompare(b.start)),
+    sleep,
+    latestSteps: latest && latestDay?.steps != null ? { ...latest, steps: latestDay.steps } : null
+  };
+}
+
+export const healthSource = defineSource({
+  name: 'health',
+  description: 'Apple Health export backfill: per-day steps, active energy, heart rate and workouts, plus sleep nights',
+  outputs: [
+    { path: 'raw-data/health-days.json' },
+    { path: 'raw-data/health-workouts.json' },
+    { path: 'raw-data/sleep-nights.json' },
+    { path: 'api/steps.json', schema: stepsOutputSchema }
+  ],
+  async fetch(ctx): Promise<RawHealth> {
+    const file = ctx.env('HEALTH_EXPORT');
+    const exported = await readExport(isAbsolute(file) ? file : resolve(ctx.projectRoot, file), ctx.log);
+    const stored = await readJsonFileOr<unknown>(ctx.path('raw-data', 'sleep-nights.json'), []);
+    return {
+      ...exported,
+      timeZone: (await resolveTimeZone()).timeZone,
+      storedNights: Array.isArray(stored) ? (stored as SleepNight[]) : [],
+      currentSteps: await readJsonFileOr<unknown>(ctx.path('api', 'steps.json'), null)
+    };
+  },
+  normalize({ timeZone, days, workouts, sleep, storedNights, latestSteps, currentSteps }, ctx) {
+    const imported = groupNights(sleep, timeZone).map((n) => summarizeNight(n.night, n.samples));
+    const nights = mergeNights(storedNights, imported);
+
+    const files: OutputFile[] = [
+      {
+        path: 'raw-data/health-days.json',
+        data: days,
+        summary: days.length > 0 ? `${days.length} days, ${days[0].date} to ${days[days.length - 1].date}` : 'no days'
+      },
+      { path: 'raw-data/health-workouts.json', data: workouts, summary: `${workouts.length} workouts` },
+      { path: 'raw-data/sleep-nights.json', data: nights, summary: `${imported.length} nights imported, ${nights.length} stored` }
+    ];
+
+    const current = findUpdatedAt(currentSteps, { timeZone });
+    if (latestSteps && (!current || latestSteps.at.getTime() > Date.parse(current.iso))) {
+      const steps: StepsOutput = {
+        updatedAt: latestSteps.at.toISOString(),
+        date: shortcutDate(latestSteps.at, timeZone),
+        stepsToday: latestSteps.steps,
+        reached_10k: latestSteps.steps >= 10000
+      };
+      files.push({ path: 'api/steps.json', data: steps, summary: `${latestSteps.steps} steps on ${latestSteps.date}` });
+    } else {
+      ctx.log.info('api/steps.json is newer than the export; leaving it');
+    }
+    return files;
+  }
+});
+
+runSourceScript(import.meta.url, healthSource);
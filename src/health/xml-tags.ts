@@ -0,0 +1,92 @@
+import { StringDecoder } from 'node:string_decoder';
+
+/*
+ * A streaming scanner for the start and end tags of flat, attribute-heavy XML
+ * like Apple Health's export.xml. It only ever holds one chunk plus a partial
+ * tag in memory, skips text, comments, processing instructions and the
+ * DOCTYPE, and parses attributes only for the element names asked for.
+ */
+
+export type XmlTag = {
+  name: string;
+  attrs: Record<string, string>;
+  /** A `</name>` end tag; attrs is empty. */
+  closing: boolean;
+  /** `<name ... />`, which has no end tag. */
+  selfClosing: boolean;
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeEntities(s: string): string {
+  if (!s.includes('&')) return s;
+  return s.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (whole, ref: string) => {
+    if (ref[0] === '#') {
+      const code = ref[1] === 'x' || ref[1] === 'X' ? Number.parseInt(ref.slice(2), 16) : Number.parseInt(ref.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : whole;
+    }
+    return ENTITIES[ref] ?? whole;
+  });
+}
+
+function parseAttrs(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const m of tag.matchAll(/([\w:.-]+)\s*=\s*"([^"]*)"/g)) attrs[m[1]] = decodeEntities(m[2]);
+  return attrs;
+}
+
+/** Index of the `>` closing the tag opened at `from`, ignoring any inside quoted attribute values; -1 if not buffered yet. */
+function tagEnd(buf: string, from: number): number {
+  let quoted = false;
+  for (let i = from; i < buf.length; i++) {
+    const c = buf.charCodeAt(i);
+    if (c === 34) quoted = !quoted;
+    else if (c === 62 && !quoted) return i;
+  }
+  return -1;
+}
+
+export async function* scanTags(input: AsyncIterable<string | Buffer>, names: ReadonlySet<string>): AsyncGenerator<XmlTag> {
+  const decoder = new StringDecoder('utf8');
+  let buf = '';
+  for await (const chunk of input) {
+    buf += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+    let pos = 0;
+    for (;;) {
+      const lt = buf.indexOf('<', pos);
+      if (lt < 0) {
+        pos = buf.length;
+        break;
+      }
+      if (buf.startsWith('<!--', lt)) {
+        const end = buf.indexOf('-->', lt + 4);
+        if (end < 0) {
+          pos = lt;
+          break;
+        }
+        pos = end + 3;
+        continue;
+      }
+      const gt = tagEnd(buf, lt + 1);
+      if (gt < 0) {
+        pos = lt;
+        break;
+      }
+      pos = gt + 1;
+
+      const first = buf[lt + 1];
+      // <?xml ...?>, <!DOCTYPE ...>, <!ELEMENT ...> and the like.
+      if (first === '?' || first === '!') continue;
+      const closing = first === '/';
+      const start = closing ? lt + 2 : lt + 1;
+      let nameEnd = start;
+      while (nameEnd < gt && !/[\s/>]/.test(buf[nameEnd])) nameEnd++;
+      const name = buf.slice(start, nameEnd);
+      if (!names.has(name)) continue;
+
+      const selfClosing = !closing && buf[gt - 1] === '/';
+      yield { name, attrs: closing ? {} : parseAttrs(buf.slice(nameEnd, gt)), closing, selfClosing };
+    }
+    buf = buf.slice(pos);
+  }
+}
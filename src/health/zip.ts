@@ -0,0 +1,110 @@
+import { createReadStream } from 'node:fs';
+import { open, type FileHandle } from 'node:fs/promises';
+import type { Readable } from 'node:stream';
+import { createInflateRaw } from 'node:zlib';
+import { dataError } from '../core/index.js';
+
+/*
+ * Just enough of the zip format to stream one entry out of an archive without
+ * extracting it: the central directory is read from the end of the file, then
+ * only that entry's bytes are inflated. Zip64 is handled, since Health exports
+ * easily pass 4 GB.
+ */
+
+export type ZipEntry = { name: string; stream: Readable };
+
+const EOCD = 0x06054b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const ZIP64_EOCD = 0x06064b50;
+const CENTRAL_HEADER = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+/** End-of-central-directory record plus the longest possible archive comment. */
+const EOCD_SEARCH = 22 + 0xffff;
+
+async function readAt(fh: FileHandle, position: number, length: number): Promise<Buffer> {
+  const buf = Buffer.alloc(length);
+  const { bytesRead } = await fh.read(buf, 0, length, position);
+  return buf.subarray(0, bytesRead);
+}
+
+function u64(buf: Buffer, offset: number): number {
+  return Number(buf.readBigUInt64LE(offset));
+}
+
+/** Central directory location and size, from the (Zip64) end-of-central-directory record. */
+async function centralDirectory(fh: FileHandle, size: number, path: string): Promise<{ offset: number; size: number }> {
+  const tailStart = Math.max(0, size - EOCD_SEARCH);
+  const tail = await readAt(fh, tailStart, size - tailStart);
+  let at = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === EOCD) {
+      at = i;
+      break;
+    }
+  }
+  if (at < 0) throw dataError(`${path} is not a zip file.`);
+
+  const cdSize = tail.readUInt32LE(at + 12);
+  const cdOffset = tail.readUInt32LE(at + 16);
+  if (cdSize !== 0xffffffff && cdOffset !== 0xffffffff) return { offset: cdOffset, size: cdSize };
+
+  const locatorAt = at - 20;
+  if (locatorAt < 0 || tail.readUInt32LE(locatorAt) !== ZIP64_LOCATOR) throw dataError(`${path} has a broken Zip64 directory.`);
+  const record = await readAt(fh, u64(tail, locatorAt + 8), 56);
+  if (record.length < 56 || record.readUInt32LE(0) !== ZIP64_EOCD) throw dataError(`${path} has a broken Zip64 directory.`);
+  return { offset: u64(record, 48), size: u64(record, 40) };
+}
+
+/** Open the first entry whose name passes `match`; throws when there is none. */
+export async function openZipEntry(path: string, match: (name: string) => boolean): Promise<ZipEntry> {
+  const fh = await open(path, 'r');
+  try {
+    const { size } = await fh.stat();
+    const cd = await centralDirectory(fh, size, path);
+    const dir = await readAt(fh, cd.offset, cd.size);
+
+    for (let p = 0; p + 46 <= dir.length && dir.readUInt32LE(p) === CENTRAL_HEADER; ) {
+      const method = dir.readUInt16LE(p + 10);
+      let compressedSize = dir.readUInt32LE(p + 20);
+      const uncompressedSize = dir.readUInt32LE(p + 24);
+      const nameLength = dir.readUInt16LE(p + 28);
+      const extraLength = dir.readUInt16LE(p + 30);
+      const commentLength = dir.readUInt16LE(p + 32);
+      let localOffset = dir.readUInt32LE(p + 42);
+      const name = dir.toString('utf8', p + 46, p + 46 + nameLength);
+
+      // Zip64 extra field: the 64-bit values, in this order, for each field that overflowed.
+      const extraStart = p + 46 + nameLength;
+      for (let e = extraStart; e + 4 <= extraStart + extraLength; ) {
+        const id = dir.readUInt16LE(e);
+        const length = dir.readUInt16LE(e + 2);
+        if (id === 0x0001) {
+          let q = e + 4;
+          if (uncompressedSize === 0xffffffff) q += 8;
+          if (compressedSize === 0xffffffff) {
+            compressedSize = u64(dir, q);
+            q += 8;
+          }
+          if (localOffset === 0xffffffff) localOffset = u64(dir, q);
+        }
+        e += 4 + length;
+      }
+      p = extraStart + extraLength + commentLength;
+      if (!match(name)) continue;
+
+      if (method !== 0 && method !== 8) throw dataError(`${name} in ${path} uses unsupported compression method ${method}.`);
+      const local = await readAt(fh, localOffset, 30);
+      if (local.length < 30 || local.readUInt32LE(0) !== LOCAL_HEADER) throw dataError(`${name} in ${path} has a broken header.`);
+      const dataStart = localOffset + 30 + local.readUInt16LE(26) + local.readUInt16LE(28);
+
+      const raw = createReadStream(path, { start: dataStart, end: dataStart + compressedSize - 1 });
+      if (method === 0) return { name, stream: raw };
+      const inflate = createInflateRaw();
+      raw.on('error', (err) => inflate.destroy(err));
+      return { name, stream: raw.pipe(inflate) };
+    }
+  } finally {
+    await fh.close();
+  }
+  throw dataError(`No matching entry in ${path}.`);
+}
@@ -0,0 +1,51 @@
+import {
+  archiveSnapshot,
+  findUpdatedAt,
+  formatIssues,
+  projectPath,
+  readJsonFileOr,
+  resolveTimeZone,
+  runScript,
+  validate,
+  type Logger
+} from '../core/index.js';
+import { endpointSchemas } from '../registry.js';
+
+/**
+ * Snapshot every registered endpoint into api/history/<name>/. Endpoints that
+ * are missing or fail their schema are skipped rather than archived, so the
+ * history only ever holds data the API actually served as valid.
+ */
+export async function buildHistory(log: Logger): Promise<void> {
+  const now = new Date();
+  const { timeZone } = await resolveTimeZone();
+  let archived = 0;
+
+  for (const endpoint of endpointSchemas()) {
+    const data = await readJsonFileOr<unknown>(projectPath(endpoint.path), undefined);
+    if (data === undefined) {
+      log.warn(`${endpoint.path} is missing or unreadable; skipping`);
+      continue;
+    }
+    const issues = validate(endpoint.schema, data);
+    if (issues.length > 0) {
+      log.warn(`${endpoint.path} failed schema validation; not archiving`, { issues: formatIssues(issues) });
+      continue;
+    }
+
+    const updatedAt = findUpdatedAt(data, { timeZone });
+    const result = await archiveSnapshot({
+      name: endpoint.name,
+      data,
+      capturedAt: updatedAt ? new Date(updatedAt.iso) : now,
+      now,
+      policy: endpoint.history,
+      log
+    });
+    if (result.written) archived++;
+  }
+
+  log.info(`Archived ${archived} new snapshot${archived === 1 ? '' : 's'}`);
+}
+
+runScript(import.meta.url, 'history', buildHistory);
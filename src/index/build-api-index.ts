@@ -1,43 +1,124 @@
 import { readdir, readFile, writeFile } from 'node:fs/promises';
 import { join, extname, basename } from 'node:path';
+import {
+  assessFreshness,
+  formatDuration,
+  findUpdatedAt,
+  formatIssues,
+  parseDuration,
+  projectRoot,
+  resolveTimeZone,
+  runScript,
+  safeSnippet,
+  schema,
+  validate,
+  writeJsonFile,
+  type Freshness,
+  type Logger,
+  type Schema,
+  type SchemaIssue
+} from '../core/index.js';
+import { endpointSchemas } from '../registry.js';
+
+export const BASE_URL = 'https://saiyyamkochar-29.github.io/kochu-apis';
+
+/** Files under api/ that describe the API rather than being endpoints. */
+const META_FILES = new Set(['index.json', 'openapi.json']);
+
+/** Project-relative path of the published JSON Schema for an endpoint. */
+export function schemaPath(name: string): string {
+  return `api/schemas/${name}.schema.json`;
+}
 
-const BASE_URL = 'https://saiyyamkochar-29.github.io/kochu-apis';
-
-type EndpointInfo = {
+export type EndpointInfo = {
   name: string;
   path: string;
   url: string;
-  health: 'ok' | 'error';
+  /** URL of the endpoint's JSON Schema, or null if it has none. */
+  schema: string | null;
+  /** ok: parses and matches its schema; invalid: parses but fails the schema; error: unreadable JSON. */
+  health: 'ok' | 'invalid' | 'error';
+  /** Canonical UTC ISO of the endpoint's own timestamp (updatedAt or similar). */
   lastUpdated: string | null;
+  /** The timestamp exactly as the endpoint wrote it, e.g. a Shortcut's "Apr 17, 2026 at 7:00 AM". */
+  lastUpdatedOriginal: string | number | null;
+  /** fresh/stale against expectedRefreshSeconds; unknown without a parseable lastUpdated or interval. */
+  freshness: Freshness;
+  /** Seconds between lastUpdated and index generation. */
+  ageSeconds: number | null;
+  expectedRefreshSeconds: number | null;
+  /** Failing schema paths, only present when health is 'invalid'. */
+  issues?: SchemaIssue[];
 };
 
-function safeSnippet(text: string, maxLen = 200): string {
-  const s = String(text).trim();
-  return s.length <= maxLen ? s : s.slice(0, maxLen) + '...';
-}
+export type ApiIndex = {
+  updatedAt: string;
+  baseUrl: string;
+  openapi: string;
+  summary: { total: number; ok: number; invalid: number; error: number; stale: number };
+  endpoints: EndpointInfo[];
+};
 
-function extractLastUpdated(obj: any): string | null {
-  const candidates = [obj?.updatedAt, obj?.lastUpdated, obj?.last_updated];
-  for (const c of candidates) {
-    if (typeof c === 'string' && c.trim()) return c.trim();
-  }
-  return null;
+export const apiIndexSchema: Schema<ApiIndex> = schema.object({
+  updatedAt: schema.string({ format: 'date-time' }),
+  baseUrl: schema.string({ minLength: 1 }),
+  openapi: schema.string({ minLength: 1 }),
+  summary: schema.object({
+    total: schema.integer({ minimum: 0 }),
+    ok: schema.integer({ minimum: 0 }),
+    invalid: schema.integer({ minimum: 0 }),
+    error: schema.integer({ minimum: 0 }),
+    stale: schema.integer({ minimum: 0 })
+  }),
+  endpoints: schema.array(
+    schema.object({
+      name: schema.string({ minLength: 1 }),
+      path: schema.string({ minLength: 1 }),
+      url: schema.string({ minLength: 1 }),
+      schema: schema.nullable(schema.string()),
+      health: schema.literal('ok', 'invalid', 'error'),
+      lastUpdated: schema.nullable(schema.string({ format: 'date-time' })),
+      lastUpdatedOriginal: schema.nullable(schema.union(schema.string(), schema.number())),
+      freshness: schema.literal('fresh', 'stale', 'unknown'),
+      ageSeconds: schema.nullable(schema.integer({ minimum: 0 })),
+      expectedRefreshSeconds: schema.nullable(schema.integer({ minimum: 0 })),
+      issues: schema.optional(schema.array(schema.object({ path: schema.string(), message: schema.string() })))
+    })
+  )
+});
+
+function extractLastUpdated(obj: unknown, timeZone: string): { lastUpdated: string | null; lastUpdatedOriginal: string | number | null } {
+  // Shortcut timestamps carry no zone; they're read as home time.
+  const found = findUpdatedAt(obj, { timeZone });
+  return { lastUpdated: found?.iso ?? null, lastUpdatedOriginal: found?.original ?? null };
 }
 
 function buildStatusMarkdown(updatedAt: string, endpoints: EndpointInfo[]) {
   const total = endpoints.length;
   const ok = endpoints.filter((e) => e.health === 'ok').length;
-  const error = total - ok;
+  const invalid = endpoints.filter((e) => e.health === 'invalid').length;
+  const error = endpoints.filter((e) => e.health === 'error').length;
+  const stale = endpoints.filter((e) => e.freshness === 'stale');
 
   const lines: string[] = [];
   lines.push('### API Status');
   lines.push(`- Index: ${BASE_URL}/api.json`);
   lines.push(`- Last updated: ${updatedAt}`);
-  lines.push(`- Health: ${ok}/${total} OK, ${error} errors`);
+  lines.push(`- Health: ${ok}/${total} OK, ${invalid} invalid, ${error} errors`);
+  const fresh = endpoints.filter((e) => e.freshness === 'fresh').length;
+  lines.push(`- Freshness: ${fresh} fresh, ${stale.length} stale, ${total - fresh - stale.length} unknown`);
+  if (stale.length > 0) {
+    lines.push(`- ⚠️ Stale: ${stale.map((e) => e.name).join(', ')}`);
+  }
   lines.push('');
   lines.push('Endpoints:');
   for (const e of endpoints) {
-    lines.push(`- [${e.name}](/kochu-apis${e.path}) • ${e.health} • ${e.lastUpdated ?? 'null'}`);
+    const health = e.issues ? `${e.health} (${formatIssues(e.issues, 2)})` : e.health;
+    const freshness =
+      e.freshness === 'stale' && e.ageSeconds !== null && e.expectedRefreshSeconds !== null
+        ? ` • ⚠️ stale (${formatDuration(e.ageSeconds)} old, expected every ${formatDuration(e.expectedRefreshSeconds)})`
+        : '';
+    lines.push(`- [${e.name}](/kochu-apis${e.path}) • ${health} • ${e.lastUpdated ?? 'null'}${freshness}`);
   }
   lines.push('');
   return lines.join('\n');
@@ -82,69 +163,91 @@ async function updateReadme(readmePath: string, statusMd: string) {
   await writeFile(readmePath, next, 'utf-8');
 }
 
-async function main() {
-  const projectRoot = process.cwd();
+export async function buildApiIndex(log: Logger): Promise<void> {
   const apiDir = join(projectRoot, 'api');
   const readmePath = join(projectRoot, 'README.md');
 
   const files = await readdir(apiDir);
   const jsonFiles = files
     .filter((f) => extname(f).toLowerCase() === '.json')
-    .filter((f) => f !== 'index.json');
+    .filter((f) => !META_FILES.has(f));
 
+  const known = new Map(endpointSchemas().map((e) => [e.path, e]));
+  const { timeZone } = await resolveTimeZone();
+  const now = new Date();
   const endpoints: EndpointInfo[] = [];
 
   for (const file of jsonFiles) {
     const filePath = join(apiDir, file);
     const name = basename(file, '.json');
     const relPath = `/api/${file}`;
+    const endpoint = known.get(`api/${file}`);
+    const expectedRefreshSeconds = endpoint?.refreshEvery ? parseDuration(endpoint.refreshEvery) : null;
 
     try {
       const text = await readFile(filePath, 'utf-8');
       const parsed = JSON.parse(text);
+      const issues = endpoint ? validate(endpoint.schema, parsed) : [];
+      if (!endpoint) {
+        log.warn(`No schema registered for ${file}; only checked that it parses`);
+      }
+      if (issues.length > 0) {
+        log.warn(`${file} failed schema validation`, { issues: formatIssues(issues) });
+      }
+      const { lastUpdated, lastUpdatedOriginal } = extractLastUpdated(parsed, timeZone);
       endpoints.push({
         name,
         path: relPath,
         url: `${BASE_URL}${relPath}`,
-        health: 'ok',
-        lastUpdated: extractLastUpdated(parsed)
+        schema: endpoint ? `${BASE_URL}/${schemaPath(name)}` : null,
+        health: issues.length > 0 ? 'invalid' : 'ok',
+        lastUpdated,
+        lastUpdatedOriginal,
+        ...assessFreshness(lastUpdated, expectedRefreshSeconds, now),
+        expectedRefreshSeconds,
+        ...(issues.length > 0 ? { issues } : {})
       });
     } catch (e) {
       endpoints.push({
         name,
         path: relPath,
         url: `${BASE_URL}${relPath}`,
+        schema: endpoint ? `${BASE_URL}/${schemaPath(name)}` : null,
         health: 'error',
-        lastUpdated: null
+        lastUpdated: null,
+        lastUpdatedOriginal: null,
+        freshness: 'unknown',
+        ageSeconds: null,
+        expectedRefreshSeconds
       });
-      console.error(`Warning: failed to parse ${file}:`, safeSnippet((e as Error)?.message ?? e));
+      log.warn(`Failed to parse ${file}`, { error: safeSnippet((e as Error)?.message ?? String(e)) });
     }
   }
 
   endpoints.sort((a, b) => a.name.localeCompare(b.name));
 
-  const updatedAt = new Date().toISOString();
-  const indexObj = {
+  const updatedAt = now.toISOString();
+  const indexObj: ApiIndex = {
     updatedAt,
     baseUrl: BASE_URL,
+    openapi: `${BASE_URL}/api/openapi.json`,
     summary: {
       total: endpoints.length,
       ok: endpoints.filter((e) => e.health === 'ok').length,
-      error: endpoints.filter((e) => e.health === 'error').length
+      invalid: endpoints.filter((e) => e.health === 'invalid').length,
+      error: endpoints.filter((e) => e.health === 'error').length,
+      stale: endpoints.filter((e) => e.freshness === 'stale').length
     },
     endpoints
   };
 
-  await writeFile(join(projectRoot, 'api.json'), JSON.stringify(indexObj, null, 2) + '\n', 'utf-8');
-  await writeFile(join(apiDir, 'index.json'), JSON.stringify(indexObj, null, 2) + '\n', 'utf-8');
+  await writeJsonFile(join(projectRoot, 'api.json'), indexObj);
+  await writeJsonFile(join(apiDir, 'index.json'), indexObj);
 
   const statusMd = buildStatusMarkdown(updatedAt, endpoints);
   await updateReadme(readmePath, statusMd);
 
-  console.log('Wrote api.json, api/index.json, and updated README.md');
+  log.info('Wrote api.json, api/index.json, and updated README.md');
 }
 
-main().catch((err) => {
-  console.error('Fatal error:', err instanceof Error ? err.message : String(err));
-  process.exit(1);
-});
+runScript(import.meta.url, 'api-index', buildApiIndex);
@@ -0,0 +1,172 @@
+import {
+  addDays,
+  projectPath,
+  resolveTimeZone,
+  runScript,
+  schema,
+  writeJsonFile,
+  type Logger,
+  type Schema
+} from '../core/index.js';
+import { loadDailyMetrics, METRICS, type DayMetrics, type Metric } from '../rollups/build-rollups.js';
+import { correlationStat, pearson, spearman, type CorrelationStat } from './stats.js';
+
+/*
+ * Correlations between the daily series in the rollups, joined on local date.
+ * Sleep is credited to the day you woke up, so "sleep last night vs. code
+ * today" is the lag-0 pair; lag 1 compares x yesterday with y today.
+ */
+
+/** Pairs with fewer days in common get no coefficient. */
+export const MIN_SAMPLES = 10;
+const LAGS = [0, 1] as const;
+
+export type Strength = 'none' | 'weak' | 'moderate' | 'strong';
+
+export type Correlation = {
+  x: Metric;
+  y: Metric;
+  /** y on day d is paired with x on day d - lagDays. */
+  lagDays: number;
+  /** Days where both series have a value. */
+  n: number;
+  pearson: CorrelationStat | null;
+  spearman: CorrelationStat | null;
+  /** From |spearman r|, which is robust to the outliers these series have. */
+  strength: Strength | null;
+  /** Spearman p-value below 0.05. */
+  significant: boolean;
+  note: string | null;
+};
+
+export type CorrelationsOutput = {
+  updatedAt: string;
+  timezone: string;
+  minSamples: number;
+  series: { metric: Metric; days: number; from: string | null; to: string | null }[];
+  correlations: Correlation[];
+};
+
+const statSchema = schema.nullable(
+  schema.object({
+    r: schema.number(),
+    ci95: schema.object({ low: schema.number(), high: schema.number() }),
+    pValue: schema.number({ minimum: 0 })
+  })
+);
+
+const metricSchema = schema.literal(...METRICS);
+
+export const correlationsOutputSchema: Schema<CorrelationsOutput> = schema.object({
+  updatedAt: schema.string({ format: 'date-time' }),
+  timezone: schema.string({ minLength: 1 }),
+  minSamples: schema.integer({ minimum: 4 }),
+  series: schema.array(
+    schema.object({
+      metric: metricSchema,
+      days: schema.integer({ minimum: 0 }),
+      from: schema.nullable(schema.string({ format: 'date' })),
+      to: schema.nullable(schema.string({ format: 'date' }))
+    })
+  ),
+  correlations: schema.array(
+    schema.object({
+      x: metricSchema,
+      y: metricSchema,
+      lagDays: schema.integer({ minimum: 0 }),
+      n: schema.integer({ minimum: 0 }),
+      pearson: statSchema,
+      spearman: statSchema,
+      strength: schema.nullable(schema.literal('none', 'weak', 'moderate', 'strong')),
+      significant: schema.boolean(),
+      note: schema.nullable(schema.string())
+    })
+  )
+});
+
+function strengthOf(r: number): Strength {
+  const a = Math.abs(r);
+  if (a >= 0.7) return 'strong';
+  if (a >= 0.4) return 'moderate';
+  if (a >= 0.2) return 'weak';
+  return 'none';
+}
+
+function correlate(byDate: Map<string, DayMetrics>, x: Metric, y: Metric, lagDays: number): Correlation {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (const [date, day] of byDate) {
+    const yv = day[y];
+    const xv = byDate.get(addDays(date, -lagDays))?.[x];
+    if (yv === null || xv === null || xv === undefined) continue;
+    xs.push(xv);
+    ys.push(yv);
+  }
+
+  const base = { x, y, lagDays, n: xs.length };
+  if (xs.length < MIN_SAMPLES) {
+    return { ...base, pearson: null, spearman: null, strength: null, significant: false, note: `fewer than ${MIN_SAMPLES} paired days` };
+  }
+  const rp = pearson(xs, ys);
+  const rs = spearman(xs, ys);
+  if (rp === null || rs === null) {
+    return { ...base, pearson: null, spearman: null, strength: null, significant: false, note: 'one series is constant' };
+  }
+  const s = correlationStat(rs, xs.length, 1.06);
+  return {
+    ...base,
+    pearson: correlationStat(rp, xs.length),
+    spearman: s,
+    strength: strengthOf(rs),
+    significant: s.pValue < 0.05,
+    note: null
+  };
+}
+
+/** Same-day pairs once per metric pair; lagged pairs in both directions. */
+function pairs(): [Metric, Metric, number][] {
+  const out: [Metric, Metric, number][] = [];
+  for (const lag of LAGS) {
+    for (const x of METRICS) {
+      for (const y of METRICS) {
+        if (x === y && lag === 0) continue;
+        if (lag === 0 && METRICS.indexOf(x) > METRICS.indexOf(y)) continue;
+        out.push([x, y, lag]);
+      }
+    }
+  }
+  return out;
+}
+
+/** Write api/insights/correlations.json from the daily rollup series. */
+export async function buildCorrelations(log: Logger): Promise<void> {
+  const days = await loadDailyMetrics();
+  const byDate = new Map(days.map((d) => [d.date, d]));
+
+  const series = METRICS.map((metric) => {
+    const dates = days.filter((d) => d[metric] !== null).map((d) => d.date);
+    return { metric, days: dates.length, from: dates[0] ?? null, to: dates[dates.length - 1] ?? null };
+  });
+
+  const correlations = pairs()
+    .map(([x, y, lag]) => correlate(byDate, x, y, lag))
+    .sort((a, b) => Math.abs(b.spearman?.r ?? -1) - Math.abs(a.spearman?.r ?? -1) || b.n - a.n);
+
+  const output: CorrelationsOutput = {
+    updatedAt: new Date().toISOString(),
+    timezone: (await resolveTimeZone()).timeZone,
+    minSamples: MIN_SAMPLES,
+    series,
+    correlations
+  };
+  await writeJsonFile(projectPath('api', 'insights', 'correlations.json'), output);
+
+  const computed = correlations.filter((c) => c.spearman !== null);
+  log.info(`Wrote api/insights/correlations.json`, {
+    pairs: correlations.length,
+    computed: computed.length,
+    significant: computed.filter((c) => c.significant).length
+  });
+}
+
+runScript(import.meta.url, 'correlations', buildCorrelations);
@@ -0,0 +1,83 @@
+/*
+ * Small statistics helpers for the insights builders. Confidence intervals use
+ * the Fisher z-transform, which is an approximation for small samples; the
+ * sample size is always published next to them.
+ */
+
+export type CorrelationStat = {
+  r: number;
+  /** 95% confidence interval for r. */
+  ci95: { low: number; high: number };
+  /** Two-sided p-value for r = 0. */
+  pValue: number;
+};
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/** Pearson's r, or null when either side has no variance. */
+export function pearson(xs: number[], ys: number[]): number | null {
+  const mx = mean(xs);
+  const my = mean(ys);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    const dx = xs[i] - mx;
+    const dy = ys[i] - my;
+    sxy += dx * dy;
+    sxx += dx * dx;
+    syy += dy * dy;
+  }
+  if (sxx === 0 || syy === 0) return null;
+  return sxy / Math.sqrt(sxx * syy);
+}
+
+/** 1-based ranks, ties sharing their average rank. */
+export function ranks(values: number[]): number[] {
+  const order = values.map((v, i) => [v, i] as const).sort((a, b) => a[0] - b[0]);
+  const out = new Array<number>(values.length);
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1][0] === order[i][0]) j++;
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) out[order[k][1]] = rank;
+    i = j + 1;
+  }
+  return out;
+}
+
+export function spearman(xs: number[], ys: number[]): number | null {
+  return pearson(ranks(xs), ranks(ys));
+}
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7). */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function round(n: number, digits: number): number {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
+
+/**
+ * Confidence interval and p-value for a correlation from `n` pairs. `seScale`
+ * widens the standard error; 1.06 is the usual correction for Spearman.
+ */
+export function correlationStat(r: number, n: number, seScale: number = 1): CorrelationStat {
+  // atanh(±1) is infinite; clamp so perfect correlations still get an interval.
+  const clamped = Math.max(-0.999999, Math.min(0.999999, r));
+  const z = Math.atanh(clamped);
+  const se = seScale / Math.sqrt(n - 3);
+  return {
+    r: round(r, 3),
+    ci95: { low: round(Math.tanh(z - 1.96 * se), 3), high: round(Math.tanh(z + 1.96 * se), 3) },
+    pValue: round(2 * (1 - normalCdf(Math.abs(z) / se)), 4)
+  };
+}
@@ -1,166 +1,306 @@
-import { mkdir, writeFile } from 'node:fs/promises';
-import { dirname, join } from 'node:path';
-import { fileURLToPath } from 'node:url';
+import {
+  configError,
+  defineSource,
+  formatIssues,
+  normalizeWhitespace,
+  readJsonFileOr,
+  runSourceScript,
+  schema,
+  validate,
+  type Logger,
+  type Schema
+} from '../core/index.js';
+import { audioFeatureAveragesSchema, spotifyOutputSchema, type AudioFeatureAverages, type SpotifyOutput, type SpotifyTerm } from './build-spotify.js';
+import {
+  lastfm,
+  normalizeArtistName,
+  parseIgnoredArtistsEnv,
+  pickBestImage,
+  toArray,
+  toCount,
+  type LastFmAlbum,
+  type LastFmArtist,
+  type LastFmTrack,
+  type OneOrMany
+} from './lastfm.js';
+import {
+  musicArtistSchema,
+  musicItemSchema,
+  scrobbleSchema,
+  TOP_LIMIT,
+  type MusicAlbum,
+  type MusicArtist,
+  type MusicTrack,
+  type Scrobble
+} from './shapes.js';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+export type { MusicAlbum, MusicArtist, MusicTrack, Scrobble } from './shapes.js';
 
-type LastFmImage = {
-  ['#text']?: string;
-  size?: string;
-};
+/** Last.fm's rolling windows, as accepted by the user.getTop* methods. */
+export const LASTFM_PERIODS = ['7day', '1month', '12month', 'overall'] as const;
+export type LastFmPeriod = (typeof LASTFM_PERIODS)[number];
 
-type LastFmArtist = {
-  name?: string;
-  playcount?: string;
-  image?: LastFmImage[];
-};
+/** Days covered by each period, for counting its scrobbles; null = all time. */
+const PERIOD_DAYS: Record<LastFmPeriod, number | null> = { '7day': 7, '1month': 30, '12month': 365, overall: null };
 
-type LastFmTopArtistsResponse = {
-  topartists?: {
-    artist?: LastFmArtist[] | LastFmArtist;
-  };
-  error?: number;
-  message?: string;
+/** Spotify time range merged into each period when MUSIC_MERGE_SPOTIFY is on. */
+const SPOTIFY_TERM_FOR_PERIOD: Record<LastFmPeriod, SpotifyTerm> = {
+  '7day': 'short_term',
+  '1month': 'short_term',
+  '12month': 'medium_term',
+  overall: 'long_term',
 };
 
-type MusicArtist = {
-  name: string;
-  playcount: number;
-  image: string | null;
+const RECENT_LIMIT = 20;
+/** Fetched per list so there is still enough left after ignored artists are removed. */
+const FETCH_LIMIT = 50;
+
+export type MusicPeriod = {
+  /** Scrobbles in the window, ignored artists included; null when Last.fm didn't report the count. */
+  scrobbles: number | null;
+  topArtists: MusicArtist[];
+  topTracks: MusicTrack[];
+  topAlbums: MusicAlbum[];
 };
 
-type MusicOutput = {
+export type MusicOutput = {
+  updatedAt: string;
+  /** Top artists of the last 7 days (kept at the top level for existing consumers). */
   topArtists: MusicArtist[];
+  /** All-time scrobble count. */
+  totalScrobbles: number;
+  nowPlaying: Scrobble | null;
+  recentTracks: Scrobble[];
+  periods: Partial<Record<LastFmPeriod, MusicPeriod>>;
+  /** Where the lists came from; "spotify" when api/spotify.json was merged in. */
+  sources: ('lastfm' | 'spotify')[];
+  /** Spotify audio-feature averages, when merged. */
+  audioFeatures: AudioFeatureAverages | null;
 };
 
-function normalizeWhitespace(str: string): string {
-  return str.trim().replace(/\s+/g, ' ');
-}
+const musicPeriodSchema: Schema<MusicPeriod> = schema.object({
+  scrobbles: schema.nullable(schema.integer({ minimum: 0 })),
+  topArtists: schema.array(musicArtistSchema),
+  topTracks: schema.array(musicItemSchema),
+  topAlbums: schema.array(musicItemSchema),
+});
 
-function normalizeArtistName(name: string): string {
-  return normalizeWhitespace(name).toLowerCase();
-}
+export const musicOutputSchema: Schema<MusicOutput> = schema.object({
+  updatedAt: schema.string({ format: 'date-time' }),
+  topArtists: schema.array(musicArtistSchema, { minItems: 1 }),
+  totalScrobbles: schema.integer({ minimum: 0 }),
+  nowPlaying: schema.nullable(scrobbleSchema),
+  recentTracks: schema.array(scrobbleSchema),
+  periods: schema.object({
+    '7day': schema.optional(musicPeriodSchema),
+    '1month': schema.optional(musicPeriodSchema),
+    '12month': schema.optional(musicPeriodSchema),
+    overall: schema.optional(musicPeriodSchema),
+  }),
+  sources: schema.array(schema.literal('lastfm', 'spotify'), { minItems: 1 }),
+  audioFeatures: schema.nullable(audioFeatureAveragesSchema),
+});
 
-function parseIgnoredArtistsEnv(): Set<string> {
-  const raw = process.env.LASTFM_IGNORED_ARTISTS;
-  if (!raw || !normalizeWhitespace(raw)) {
-    return new Set();
+/** LASTFM_PERIODS, e.g. "7day,overall"; all periods when unset. */
+function parsePeriodsEnv(value: string | null): LastFmPeriod[] {
+  if (!value) return [...LASTFM_PERIODS];
+  const periods = value.split(',').map((p) => normalizeWhitespace(p)).filter(Boolean);
+  const unknown = periods.filter((p) => !(LASTFM_PERIODS as readonly string[]).includes(p));
+  if (unknown.length > 0) {
+    throw configError(`Unknown LASTFM_PERIODS value: ${unknown.join(', ')}`, { hint: `Use any of ${LASTFM_PERIODS.join(', ')}.` });
   }
+  return periods as LastFmPeriod[];
+}
 
-  try {
-    const parsed = JSON.parse(raw) as unknown;
-    if (!Array.isArray(parsed)) {
-      return new Set();
-    }
+type RawPeriod = { scrobbles: number | null; artists: LastFmArtist[]; tracks: LastFmTrack[]; albums: LastFmAlbum[] };
 
-    const normalized = parsed
-      .filter((v): v is string => typeof v === 'string')
-      .map((v) => normalizeArtistName(v))
-      .filter((v) => v.length > 0);
+type RawMusic = {
+  totalScrobbles: number;
+  recent: LastFmTrack[];
+  periods: Partial<Record<LastFmPeriod, RawPeriod>>;
+  spotify: SpotifyOutput | null;
+};
 
-    return new Set(normalized);
-  } catch {
-    return new Set();
+/** api/spotify.json, or null (with a warning) when it's missing or doesn't validate. */
+async function readSpotify(path: string, log: Logger): Promise<SpotifyOutput | null> {
+  const data = await readJsonFileOr<unknown>(path, null);
+  if (data === null) {
+    log.warn('MUSIC_MERGE_SPOTIFY is set but api/spotify.json is missing; run spotify first');
+    return null;
   }
+  const issues = validate(spotifyOutputSchema, data);
+  if (issues.length > 0) {
+    log.warn(`Not merging api/spotify.json: ${formatIssues(issues)}`);
+    return null;
+  }
+  return data as SpotifyOutput;
 }
 
-function pickBestImage(images: LastFmImage[] | undefined): string | null {
-  if (!images || images.length === 0) return null;
+/** Damps reciprocal-rank scores so one list's #1 doesn't outrank an artist high on both. */
+const RANK_FUSION_K = 10;
 
-  const bySize = new Map<string, string>();
-  for (const img of images) {
-    const url = normalizeWhitespace(img['#text'] || '');
-    const size = normalizeWhitespace(img.size || '').toLowerCase();
-    if (url) {
-      if (size) bySize.set(size, url);
-    }
-  }
+/**
+ * Both lists ranked on one score, the reciprocal rank summed over the lists an
+ * artist is in (deduped by normalized name), so Spotify-only artists compete
+ * with Last.fm's instead of queueing behind them; ties keep Last.fm's order.
+ * Spotify-only artists get a null playcount rather than Spotify's placeholder
+ * 0. Spotify's image wins for shared artists: Last.fm only serves a placeholder
+ * for artist images.
+ */
+function mergeArtists(lastfmArtists: MusicArtist[], spotifyArtists: MusicArtist[]): MusicArtist[] {
+  const merged = new Map<string, { artist: MusicArtist; score: number; order: number }>();
+  const add = (list: MusicArtist[], fromSpotify: boolean) => {
+    const seen = new Set<string>();
+    list.forEach((a, rank) => {
+      const key = normalizeArtistName(a.name);
+      if (seen.has(key)) return;
+      seen.add(key);
+      const score = 1 / (RANK_FUSION_K + rank + 1);
+      const entry = merged.get(key);
+      if (!entry) {
+        merged.set(key, { artist: fromSpotify ? { ...a, playcount: null } : a, score, order: merged.size });
+        return;
+      }
+      entry.score += score;
+      if (fromSpotify && a.image) entry.artist = { ...entry.artist, image: a.image };
+    });
+  };
+  add(lastfmArtists, false);
+  add(spotifyArtists, true);
+  return [...merged.values()]
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .slice(0, TOP_LIMIT)
+    .map((e) => e.artist);
+}
 
-  const preferred = ['mega', 'extralarge', 'large', 'medium', 'small'];
-  for (const size of preferred) {
-    const url = bySize.get(size);
-    if (url) return url;
-  }
+async function fetchPeriod(auth: { api_key: string; user: string }, period: LastFmPeriod, now: Date): Promise<RawPeriod> {
+  const list = { ...auth, period, limit: String(FETCH_LIMIT) };
+  const artists = await lastfm<{ topartists?: { artist?: OneOrMany<LastFmArtist> } }>('user.gettopartists', list);
+  const tracks = await lastfm<{ toptracks?: { track?: OneOrMany<LastFmTrack> } }>('user.gettoptracks', list);
+  const albums = await lastfm<{ topalbums?: { album?: OneOrMany<LastFmAlbum> } }>('user.gettopalbums', list);
 
-  // Fallback to any non-empty image URL
-  for (const img of images) {
-    const url = normalizeWhitespace(img['#text'] || '');
-    if (url) return url;
+  // getrecenttracks with `from` reports how many scrobbles fall in the window.
+  const days = PERIOD_DAYS[period];
+  let scrobbles: number | null = null;
+  if (days !== null) {
+    const from = String(Math.floor(now.getTime() / 1000) - days * 86400);
+    const counted = await lastfm<{ recenttracks?: { ['@attr']?: { total?: string } } }>('user.getrecenttracks', { ...auth, from, limit: '1' });
+    scrobbles = toCount(counted.recenttracks?.['@attr']?.total);
   }
 
-  return null;
+  return {
+    scrobbles,
+    artists: toArray(artists.topartists?.artist),
+    tracks: toArray(tracks.toptracks?.track),
+    albums: toArray(albums.topalbums?.album),
+  };
 }
 
-async function fetchTopArtists(params: { apiKey: string; user: string }): Promise<LastFmArtist[]> {
-  const url = new URL('https://ws.audioscrobbler.com/2.0/');
-  url.searchParams.set('method', 'user.gettopartists');
-  url.searchParams.set('user', params.user);
-  url.searchParams.set('api_key', params.apiKey);
-  url.searchParams.set('period', '7day');
-  url.searchParams.set('limit', '50');
-  url.searchParams.set('format', 'json');
-
-  const res = await fetch(url.toString());
-  if (!res.ok) {
-    throw new Error(`Last.fm request failed: ${res.status} ${res.statusText}`);
-  }
+export const musicSource = defineSource({
+  name: 'music',
+  description: 'Last.fm top artists, tracks and albums per period, plus recent scrobbles (optionally merged with Spotify)',
+  outputs: [{ path: 'api/music.json', schema: musicOutputSchema, refreshEvery: '6h' }],
+  async fetch(ctx): Promise<RawMusic> {
+    const auth = { api_key: ctx.env('LASTFM_API_KEY'), user: ctx.env('LASTFM_USER') };
+    const periods = parsePeriodsEnv(ctx.optionalEnv('LASTFM_PERIODS'));
+    // The top-level topArtists is always the 7-day list.
+    if (!periods.includes('7day')) periods.unshift('7day');
 
-  const data = (await res.json()) as LastFmTopArtistsResponse;
-  if (typeof data.error === 'number') {
-    throw new Error(`Last.fm API error ${data.error}: ${data.message || 'Unknown error'}`);
-  }
+    const info = await lastfm<{ user?: { playcount?: string } }>('user.getinfo', { user: auth.user, api_key: auth.api_key });
+    const recent = await lastfm<{ recenttracks?: { track?: OneOrMany<LastFmTrack> } }>('user.getrecenttracks', {
+      ...auth,
+      limit: String(FETCH_LIMIT),
+    });
 
-  const artist = data.topartists?.artist;
-  if (!artist) return [];
-  return Array.isArray(artist) ? artist : [artist];
-}
+    const raw: RawMusic = {
+      totalScrobbles: toCount(info.user?.playcount) ?? 0,
+      recent: toArray(recent.recenttracks?.track),
+      periods: {},
+      spotify: ctx.optionalEnv('MUSIC_MERGE_SPOTIFY') === 'true' ? await readSpotify(ctx.path('api', 'spotify.json'), ctx.log) : null,
+    };
+    for (const period of periods) {
+      raw.periods[period] = await fetchPeriod(auth, period, ctx.now);
+    }
+    return raw;
+  },
+  normalize(raw, ctx) {
+    const ignoredArtists = parseIgnoredArtistsEnv();
+    const isIgnored = (artist: string) => ignoredArtists.has(normalizeArtistName(artist));
 
-async function main() {
-  const apiKey = process.env.LASTFM_API_KEY;
-  const user = process.env.LASTFM_USER;
-  const ignoredArtists = parseIgnoredArtistsEnv();
+    const toArtists = (list: LastFmArtist[]) =>
+      list
+        .map((a): MusicArtist | null => {
+          const name = normalizeWhitespace(a.name || '');
+          const playcount = toCount(a.playcount);
+          if (!name || playcount === null || isIgnored(name)) return null;
+          return { name, playcount, image: pickBestImage(a.image) };
+        })
+        .filter((a): a is MusicArtist => a !== null)
+        .slice(0, TOP_LIMIT);
 
-  if (!apiKey || !normalizeWhitespace(apiKey)) {
-    console.error('Missing env var: LASTFM_API_KEY');
-    process.exit(1);
-  }
-  if (!user || !normalizeWhitespace(user)) {
-    console.error('Missing env var: LASTFM_USER');
-    process.exit(1);
-  }
+    const toItems = (list: (LastFmTrack | LastFmAlbum)[]) =>
+      list
+        .map((t) => {
+          const name = normalizeWhitespace(t.name || '');
+          const artist = normalizeWhitespace(t.artist?.name || '');
+          const playcount = toCount(t.playcount);
+          if (!name || !artist || playcount === null || isIgnored(artist)) return null;
+          return { name, artist, playcount, image: pickBestImage(t.image) };
+        })
+        .filter((t): t is MusicTrack => t !== null)
+        .slice(0, TOP_LIMIT);
 
-  const projectRoot = join(__dirname, '../..');
-  const outputPath = join(projectRoot, 'api/music.json');
-
-  const rawArtists = await fetchTopArtists({ apiKey: normalizeWhitespace(apiKey), user: normalizeWhitespace(user) });
-
-  const filtered = rawArtists
-    .map((a) => {
-      const name = normalizeWhitespace(a.name || '');
-      const playcountNum = Number.parseInt(normalizeWhitespace(a.playcount || ''), 10);
-      if (!name) return null;
-      if (Number.isNaN(playcountNum)) return null;
-      if (ignoredArtists.has(normalizeArtistName(name))) return null;
-      return {
-        name,
-        playcount: playcountNum,
-        image: pickBestImage(a.image),
-      } satisfies MusicArtist;
-    })
-    .filter((a): a is MusicArtist => a !== null)
-    .slice(0, 15);
-
-  const output: MusicOutput = {
-    topArtists: filtered,
-  };
+    const scrobbles = raw.recent
+      .map((t) => {
+        const name = normalizeWhitespace(t.name || '');
+        const artist = normalizeWhitespace(t.artist?.['#text'] || t.artist?.name || '');
+        if (!name || !artist || isIgnored(artist)) return null;
+        const uts = toCount(t.date?.uts);
+        const playing = t['@attr']?.nowplaying === 'true';
+        return {
+          name,
+          artist,
+          album: normalizeWhitespace(t.album?.['#text'] || '') || null,
+          image: pickBestImage(t.image),
+          playedAt: playing || uts === null ? null : new Date(uts * 1000).toISOString(),
+        } satisfies Scrobble;
+      })
+      .filter((t): t is Scrobble => t !== null);
 
-  await mkdir(dirname(outputPath), { recursive: true });
-  await writeFile(outputPath, JSON.stringify(output, null, 2) + '\n', 'utf-8');
-  console.log(`Wrote api/music.json with ${filtered.length} artists`);
-}
+    const periods: Partial<Record<LastFmPeriod, MusicPeriod>> = {};
+    for (const period of LASTFM_PERIODS) {
+      const p = raw.periods[period];
+      if (!p) continue;
+      const artists = toArtists(p.artists);
+      const spotifyArtists = raw.spotify?.terms[SPOTIFY_TERM_FOR_PERIOD[period]].topArtists.filter((a) => !isIgnored(a.name));
+      periods[period] = {
+        // Only the all-time period is counted by totalScrobbles; a missing window count stays null.
+        scrobbles: PERIOD_DAYS[period] === null ? raw.totalScrobbles : p.scrobbles,
+        topArtists: spotifyArtists ? mergeArtists(artists, spotifyArtists) : artists,
+        topTracks: toItems(p.tracks),
+        topAlbums: toItems(p.albums),
+      };
+    }
+
+    const output: MusicOutput = {
+      updatedAt: ctx.now.toISOString(),
+      topArtists: periods['7day']?.topArtists ?? [],
+      totalScrobbles: raw.totalScrobbles,
+      nowPlaying: scrobbles.find((t) => t.playedAt === null) ?? null,
+      recentTracks: scrobbles.filter((t) => t.playedAt !== null).slice(0, RECENT_LIMIT),
+      periods,
+      sources: raw.spotify ? ['lastfm', 'spotify'] : ['lastfm'],
+      audioFeatures: raw.spotify?.audioFeatures ?? null,
+    };
 
-main().catch((err) => {
-  console.error('Fatal error:', err);
-  process.exit(1);
+    return [
+      {
+        path: 'api/music.json',
+        data: output,
+        summary: `${output.topArtists.length} artists, ${Object.keys(periods).length} periods, ${output.recentTracks.length} recent`,
+      },
+    ];
+  },
 });
+
+runSourceScript(import.meta.url, musicSource);
@@ -0,0 +1,235 @@
+import { resolve } from 'node:path';
+import {
+  defineSource,
+  normalizeWhitespace,
+  readJsonFile,
+  runSourceScript,
+  schema,
+  writeJsonFile,
+  type Logger,
+  type Schema
+} from '../core/index.js';
+import { normalizeArtistName, parseIgnoredArtistsEnv } from './lastfm.js';
+import { musicArtistSchema, musicItemSchema, scrobbleSchema, TOP_LIMIT, type MusicArtist, type MusicTrack, type Scrobble } from './shapes.js';
+import {
+  largestImage,
+  spotifyAccessToken,
+  spotifyGet,
+  type SpotifyArtist,
+  type SpotifyAudioFeatures,
+  type SpotifyPlay,
+  type SpotifyTrack
+} from './spotify.js';
+
+/*
+ * Spotify's own view of your listening: top artists and tracks for its three
+ * time ranges, recently played, and audio-feature averages of the short-term
+ * top tracks. Spotify has no play counts, so lists are in its ranking order
+ * with playcount 0.
+ *
+ * fetch only collects the API responses (RawSpotify) and normalize is pure,
+ * so a recorded RawSpotify can be replayed: SPOTIFY_RECORD=path saves one
+ * after a live fetch, SPOTIFY_FIXTURE=path builds from one without the network.
+ */
+
+/** short_term ≈ 4 weeks, medium_term ≈ 6 months, long_term = several years. */
+export const SPOTIFY_TERMS = ['short_term', 'medium_term', 'long_term'] as const;
+export type SpotifyTerm = (typeof SPOTIFY_TERMS)[number];
+
+const FETCH_LIMIT = 50;
+const RECENT_LIMIT = 20;
+
+export type AudioFeatureAverages = {
+  /** Tracks the averages cover. */
+  tracks: number;
+  /** 0-1 */
+  energy: number;
+  /** 0-1, higher is happier. */
+  valence: number;
+  /** Beats per minute. */
+  tempo: number;
+};
+
+export type SpotifyTermLists = {
+  topArtists: MusicArtist[];
+  topTracks: MusicTrack[];
+};
+
+export type SpotifyOutput = {
+  updatedAt: string;
+  terms: Record<SpotifyTerm, SpotifyTermLists>;
+  recentlyPlayed: Scrobble[];
+  /** null when Spotify won't serve audio features to this app. */
+  audioFeatures: AudioFeatureAverages | null;
+};
+
+export type RawSpotify = {
+  topArtists: Record<SpotifyTerm, SpotifyArtist[]>;
+  topTracks: Record<SpotifyTerm, SpotifyTrack[]>;
+  recentlyPlayed: SpotifyPlay[];
+  /** null when the audio-features request was refused. */
+  audioFeatures: SpotifyAudioFeatures[] | null;
+};
+
+const termListsSchema: Schema<SpotifyTermLists> = schema.object({
+  topArtists: schema.array(musicArtistSchema),
+  topTracks: schema.array(musicItemSchema)
+});
+
+export const audioFeatureAveragesSchema: Schema<AudioFeatureAverages> = schema.object({
+  tracks: schema.integer({ minimum: 1 }),
+  energy: schema.number({ minimum: 0 }),
+  valence: schema.number({ minimum: 0 }),
+  tempo: schema.number({ minimum: 0 })
+});
+
+export const spotifyOutputSchema: Schema<SpotifyOutput> = schema.object({
+  updatedAt: schema.string({ format: 'date-time' }),
+  terms: schema.object({
+    short_term: termListsSchema,
+    medium_term: termListsSchema,
+    long_term: termListsSchema
+  }),
+  recentlyPlayed: schema.array(scrobbleSchema),
+  audioFeatures: schema.nullable(audioFeatureAveragesSchema)
+});
+
+async function fetchAudioFeatures(token: string, tracks: SpotifyTrack[], log: Logger): Promise<SpotifyAudioFeatures[] | null> {
+  const ids = tracks.map((t) => t.id).filter((id): id is string => Boolean(id));
+  if (ids.length === 0) return [];
+  try {
+    const json = await spotifyGet<{ audio_features?: SpotifyAudioFeatures[] }>(token, '/audio-features', { ids: ids.join(',') });
+    return json.audio_features ?? [];
+  } catch (err) {
+    // Apps registered since late 2024 get 403 here; everything else still works.
+    log.warn('Spotify audio features unavailable', { error: err instanceof Error ? err.message : String(err) });
+    return null;
+  }
+}
+
+async function fetchSpotify(ctx: { env(name: string): string; log: Logger }): Promise<RawSpotify> {
+  const token = await spotifyAccessToken({
+    clientId: ctx.env('SPOTIFY_CLIENT_ID'),
+    clientSecret: ctx.env('SPOTIFY_CLIENT_SECRET'),
+    refreshToken: ctx.env('SPOTIFY_REFRESH_TOKEN')
+  });
+
+  const raw: RawSpotify = {
+    topArtists: { short_term: [], medium_term: [], long_term: [] },
+    topTracks: { short_term: [], medium_term: [], long_term: [] },
+    recentlyPlayed: [],
+    audioFeatures: null
+  };
+  for (const term of SPOTIFY_TERMS) {
+    const params = { time_range: term, limit: String(FETCH_LIMIT) };
+    raw.topArtists[term] = (await spotifyGet<{ items?: SpotifyArtist[] }>(token, '/me/top/artists', params)).items ?? [];
+    raw.topTracks[term] = (await spotifyGet<{ items?: SpotifyTrack[] }>(token, '/me/top/tracks', params)).items ?? [];
+  }
+  raw.recentlyPlayed =
+    (await spotifyGet<{ items?: SpotifyPlay[] }>(token, '/me/player/recently-played', { limit: String(FETCH_LIMIT) })).items ?? [];
+  raw.audioFeatures = await fetchAudioFeatures(token, raw.topTracks.short_term, ctx.log);
+  return raw;
+}
+
+function average(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function averageFeatures(features: SpotifyAudioFeatures[] | null): AudioFeatureAverages | null {
+  const usable = (features ?? []).filter(
+    (f): f is { energy: number; valence: number; tempo: number } =>
+      typeof f?.energy === 'number' && typeof f.valence === 'number' && typeof f.tempo === 'number'
+  );
+  if (usable.length === 0) return null;
+  const round = (n: number, digits: number) => Math.round(n * 10 ** digits) / 10 ** digits;
+  return {
+    tracks: usable.length,
+    energy: round(average(usable.map((f) => f.energy)), 3),
+    valence: round(average(usable.map((f) => f.valence)), 3),
+    tempo: round(average(usable.map((f) => f.tempo)), 1)
+  };
+}
+
+/** Turn recorded API responses into api/spotify.json. Pure, so fixtures give stable output. */
+export function normalizeSpotify(raw: RawSpotify, now: Date, ignoredArtists: Set<string> = new Set()): SpotifyOutput {
+  const isIgnored = (artist: string) => ignoredArtists.has(normalizeArtistName(artist));
+  const firstArtist = (t: SpotifyTrack) => normalizeWhitespace(t.artists?.[0]?.name || '');
+
+  const toArtists = (list: SpotifyArtist[]) =>
+    list
+      .map((a): MusicArtist | null => {
+        const name = normalizeWhitespace(a.name || '');
+        if (!name || isIgnored(name)) return null;
+        return { name, playcount: 0, image: largestImage(a.images) };
+      })
+      .filter((a): a is MusicArtist => a !== null)
+      .slice(0, TOP_LIMIT);
+
+  const toTracks = (list: SpotifyTrack[]) =>
+    list
+      .map((t) => {
+        const name = normalizeWhitespace(t.name || '');
+        const artist = firstArtist(t);
+        if (!name || !artist || isIgnored(artist)) return null;
+        return { name, artist, playcount: 0, image: largestImage(t.album?.images) } satisfies MusicTrack;
+      })
+      .filter((t): t is MusicTrack => t !== null)
+      .slice(0, TOP_LIMIT);
+
+  const recentlyPlayed = raw.recentlyPlayed
+    .map(({ track, played_at }): Scrobble | null => {
+      const name = normalizeWhitespace(track?.name || '');
+      const artist = track ? firstArtist(track) : '';
+      const playedAt = played_at ? new Date(played_at) : null;
+      if (!name || !artist || isIgnored(artist) || !playedAt || Number.isNaN(playedAt.getTime())) return null;
+      return {
+        name,
+        artist,
+        album: normalizeWhitespace(track?.album?.name || '') || null,
+        image: largestImage(track?.album?.images),
+        playedAt: playedAt.toISOString()
+      };
+    })
+    .filter((t): t is Scrobble => t !== null)
+    .slice(0, RECENT_LIMIT);
+
+  const terms = {} as Record<SpotifyTerm, SpotifyTermLists>;
+  for (const term of SPOTIFY_TERMS) {
+    terms[term] = { topArtists: toArtists(raw.topArtists[term] ?? []), topTracks: toTracks(raw.topTracks[term] ?? []) };
+  }
+
+  return { updatedAt: now.toISOString(), terms, recentlyPlayed, audioFeatures: averageFeatures(raw.audioFeatures) };
+}
+
+export const spotifySource = defineSource({
+  name: 'spotify',
+  description: 'Spotify top artists and tracks per time range, recently played and audio-feature averages',
+  outputs: [{ path: 'api/spotify.json', schema: spotifyOutputSchema, refreshEvery: '6h' }],
+  async fetch(ctx): Promise<RawSpotify> {
+    const fixture = ctx.optionalEnv('SPOTIFY_FIXTURE');
+    if (fixture) {
+      ctx.log.info(`Replaying ${fixture} instead of calling Spotify`);
+      return readJsonFile<RawSpotify>(resolve(ctx.projectRoot, fixture));
+    }
+    const raw = await fetchSpotify(ctx);
+    const record = ctx.optionalEnv('SPOTIFY_RECORD');
+    if (record) {
+      await writeJsonFile(resolve(ctx.projectRoot, record), raw);
+      ctx.log.info(`Recorded Spotify responses to ${record}`);
+    }
+    return raw;
+  },
+  normalize(raw, ctx) {
+    const output = normalizeSpotify(raw, ctx.now, parseIgnoredArtistsEnv());
+    const short = output.terms.short_term;
+    return [
+      {
+        path: 'api/spotify.json',
+        data: output,
+        summary: `${short.topArtists.length} artists, ${short.topTracks.length} tracks (short term), ${output.recentlyPlayed.length} recent`
+      }
+    ];
+  }
+});
+
+runSourceScript(import.meta.url, spotifySource);
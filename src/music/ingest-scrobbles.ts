@@ -0,0 +1,313 @@
+import {
+  defineSource,
+  isoWeekday,
+  normalizeWhitespace,
+  pad2,
+  readJsonFileOr,
+  resolveTimeZone,
+  runSourceScript,
+  schema,
+  SourceError,
+  wallTimeIn,
+  type Logger,
+  type Schema
+} from '../core/index.js';
+import { lastfm, normalizeArtistName, parseIgnoredArtistsEnv, toArray, toCount, type LastFmTrack, type OneOrMany } from './lastfm.js';
+
+/*
+ * Every scrobble, kept in raw-data/lastfm-scrobbles.json and extended each run
+ * from the newest stored timestamp. Listening time comes from track durations
+ * (track.getInfo, cached in raw-data/lastfm-track-durations.json); plays whose
+ * duration isn't known yet are counted at DEFAULT_TRACK_SECONDS.
+ */
+
+export type StoredScrobble = {
+  /** Unix seconds the track started playing. */
+  uts: number;
+  artist: string;
+  track: string;
+  album: string | null;
+};
+
+/** "artist\ttrack" (lowercased) → seconds, or null when Last.fm has no duration. */
+type DurationCache = Record<string, number | null>;
+
+export type ListeningDay = {
+  date: string;
+  plays: number;
+  minutes: number;
+  /** Plays counted at the default length because their duration is unknown. */
+  estimatedPlays: number;
+  topArtist: string | null;
+  /** Plays per local hour, 0-23. */
+  hours: number[];
+};
+
+export type ListeningOutput = {
+  updatedAt: string;
+  timezone: string;
+  totalScrobbles: number;
+  from: string | null;
+  to: string | null;
+  days: ListeningDay[];
+  /** Plays per weekday (Monday first) and local hour, over all days. */
+  heatmap: number[][];
+};
+
+const PAGE_LIMIT = 200;
+/** Pages fetched per run; a large backlog is caught up over several runs. */
+const DEFAULT_MAX_PAGES = 20;
+/** track.getInfo calls per run. */
+const DEFAULT_DURATION_LOOKUPS = 200;
+const DEFAULT_TRACK_SECONDS = 210;
+/** Last.fm's "Track not found". */
+const TRACK_NOT_FOUND = 6;
+
+const hourCounts = schema.array(schema.integer({ minimum: 0 }), { minItems: 24 });
+
+export const listeningOutputSchema: Schema<ListeningOutput> = schema.object({
+  updatedAt: schema.string({ format: 'date-time' }),
+  timezone: schema.string({ minLength: 1 }),
+  totalScrobbles: schema.integer({ minimum: 0 }),
+  from: schema.nullable(schema.string({ format: 'date' })),
+  to: schema.nullable(schema.string({ format: 'date' })),
+  days: schema.array(
+    schema.object({
+      date: schema.string({ format: 'date' }),
+      plays: schema.integer({ minimum: 0 }),
+      minutes: schema.number({ minimum: 0 }),
+      estimatedPlays: schema.integer({ minimum: 0 }),
+      topArtist: schema.nullable(schema.string()),
+      hours: hourCounts
+    })
+  ),
+  heatmap: schema.array(hourCounts, { minItems: 7 })
+});
+
+type RecentTracksPage = {
+  recenttracks?: { track?: OneOrMany<LastFmTrack>; ['@attr']?: { totalPages?: string; total?: string } };
+};
+
+type RawScrobbles = {
+  timeZone: string;
+  scrobbles: StoredScrobble[];
+  durations: DurationCache;
+};
+
+function durationKey(s: { artist: string; track: string }): string {
+  return `${s.artist}\t${s.track}`.toLowerCase();
+}
+
+function positiveIntEnv(value: string | null, fallback: number): number {
+  const n = toCount(value ?? undefined);
+  return n !== null && n > 0 ? n : fallback;
+}
+
+function toStored(t: LastFmTrack): StoredScrobble | null {
+  // The now-playing entry has no date and is scrobbled for real once it finishes.
+  if (t['@attr']?.nowplaying === 'true') return null;
+  const uts = toCount(t.date?.uts);
+  const artist = normalizeWhitespace(t.artist?.['#text'] || t.artist?.name || '');
+  const track = normalizeWhitespace(t.name || '');
+  if (uts === null || !artist || !track) return null;
+  const album = normalizeWhitespace(t.album?.['#text'] || '');
+  return { uts, artist, track, album: album || null };
+}
+
+/**
+ * Scrobbles from `fromUts` up to `toUts`, oldest first so a capped run never
+ * leaves a gap: whatever isn't fetched is newer than everything that was.
+ * Last.fm numbers pages from the newest scrobble, so page numbers shift as
+ * scrobbles come in; instead of walking them, each request asks for the last
+ * (oldest) page of what's left after a timestamp cursor, and `to` is pinned to
+ * the start of the run.
+ */
+async function fetchScrobbles(
+  auth: { api_key: string; user: string },
+  fromUts: number,
+  toUts: number,
+  maxPages: number,
+  log: Logger
+): Promise<StoredScrobble[]> {
+  const out: StoredScrobble[] = [];
+  let cursor = fromUts;
+  // Unknown until Last.fm reports how many pages the range has.
+  let page = 1;
+  for (let requests = 0; ; requests++) {
+    if (requests === maxPages) {
+      log.info(`Stopped after ${maxPages} pages; the rest is fetched on later runs`);
+      break;
+    }
+    const params = { ...auth, from: String(cursor), to: String(toUts), limit: String(PAGE_LIMIT), extended: '0', page: String(page) };
+    const data = await lastfm<RecentTracksPage>('user.getrecenttracks', params);
+    const attr = data.recenttracks?.['@attr'];
+    const totalPages = toCount(attr?.totalPages) ?? 0;
+    if (totalPages === 0) break;
+    if (page !== totalPages) {
+      // First request, or the range changed under us: ask again for the oldest page.
+      if (requests === 0 && totalPages > maxPages) log.info(`Backlog of ${totalPages} pages; fetching the oldest ${maxPages - 1} this run`);
+      page = totalPages;
+      continue;
+    }
+
+    const batch = toArray(data.recenttracks?.track).flatMap((t) => toStored(t) ?? []);
+    out.push(...batch);
+    if (page === 1 || batch.length === 0) break;
+
+    // Scrobbles sharing the newest second may straddle pages, so the cursor
+    // stays on it (the caller dedupes) and those are counted as left over.
+    const newest = Math.max(...batch.map((s) => s.uts));
+    let remaining = (toCount(attr?.total) ?? 0) - batch.length;
+    if (newest > cursor) {
+      remaining += batch.filter((s) => s.uts === newest).length;
+      cursor = newest;
+    } else {
+      cursor += 1;
+    }
+    page = Math.max(1, Math.ceil(remaining / PAGE_LIMIT));
+  }
+  return out;
+}
+
+/** Fill in durations for the most-played tracks not in the cache yet. */
+async function lookupDurations(
+  apiKey: string,
+  scrobbles: StoredScrobble[],
+  cache: DurationCache,
+  maxLookups: number,
+  log: Logger
+): Promise<DurationCache> {
+  const missing = new Map<string, { artist: string; track: string; plays: number }>();
+  for (const s of scrobbles) {
+    const key = durationKey(s);
+    if (key in cache) continue;
+    const entry = missing.get(key) ?? { artist: s.artist, track: s.track, plays: 0 };
+    entry.plays += 1;
+    missing.set(key, entry);
+  }
+
+  const next = { ...cache };
+  const todo = [...missing.entries()].sort((a, b) => b[1].plays - a[1].plays).slice(0, maxLookups);
+  for (const [key, { artist, track }] of todo) {
+    try {
+      const info = await lastfm<{ track?: { duration?: string } }>('track.getInfo', { api_key: apiKey, artist, track, autocorrect: '1' });
+      const ms = toCount(info.track?.duration);
+      next[key] = ms !== null && ms > 0 ? Math.round(ms / 1000) : null;
+    } catch (err) {
+      // "Track not found" is common for obscure scrobbles; remember it. Anything
+      // else (network, 5xx, rate limits) is left out of the cache and retried next run.
+      if (err instanceof SourceError && err.details?.code === TRACK_NOT_FOUND) next[key] = null;
+      log.debug(`No duration for ${artist} – ${track}`, { error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  if (missing.size > todo.length) log.info(`${missing.size - todo.length} track durations left for later runs`);
+  return next;
+}
+
+function summarize(scrobbles: StoredScrobble[], durations: DurationCache, timeZone: string) {
+  // Offsets are whole quarter hours, so wall times can be shared per 15-minute slot.
+  const wallTimes = new Map<number, { date: string; hour: number; weekday: number }>();
+  const wallTime = (uts: number) => {
+    const slot = Math.floor(uts / 900);
+    let w = wallTimes.get(slot);
+    if (!w) {
+      const t = wallTimeIn(timeZone, new Date(slot * 900 * 1000));
+      const date = `${t.year}-${pad2(t.month)}-${pad2(t.day)}`;
+      w = { date, hour: t.hour, weekday: isoWeekday(date) };
+      wallTimes.set(slot, w);
+    }
+    return w;
+  };
+
+  const heatmap = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  const byDate = new Map<string, { day: ListeningDay; seconds: number; artists: Map<string, number> }>();
+  for (const s of scrobbles) {
+    const { date, hour, weekday } = wallTime(s.uts);
+    const entry = byDate.get(date) ?? {
+      day: { date, plays: 0, minutes: 0, estimatedPlays: 0, topArtist: null, hours: new Array<number>(24).fill(0) },
+      seconds: 0,
+      artists: new Map<string, number>()
+    };
+    const seconds = durations[durationKey(s)];
+    entry.day.plays += 1;
+    entry.day.hours[hour] += 1;
+    if (seconds == null) entry.day.estimatedPlays += 1;
+    entry.seconds += seconds ?? DEFAULT_TRACK_SECONDS;
+    entry.artists.set(s.artist, (entry.artists.get(s.artist) ?? 0) + 1);
+    heatmap[weekday - 1][hour] += 1;
+    byDate.set(date, entry);
+  }
+
+  const days = [...byDate.values()]
+    .map(({ day, seconds, artists }) => {
+      const top = [...artists.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0];
+      return { ...day, minutes: Math.round(seconds / 6) / 10, topArtist: top?.[0] ?? null };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+  return { days, heatmap };
+}
+
+export const scrobblesSource = defineSource({
+  name: 'scrobbles',
+  description: 'Per-day Last.fm plays, listening minutes and hour-of-day heatmap from the stored scrobble log',
+  outputs: [
+    { path: 'raw-data/lastfm-scrobbles.json' },
+    { path: 'raw-data/lastfm-track-durations.json' },
+    { path: 'api/listening.json', schema: listeningOutputSchema, refreshEvery: '6h' }
+  ],
+  async fetch(ctx): Promise<RawScrobbles> {
+    const auth = { api_key: ctx.env('LASTFM_API_KEY'), user: ctx.env('LASTFM_USER') };
+    const stored = await readJsonFileOr<unknown>(ctx.path('raw-data', 'lastfm-scrobbles.json'), []);
+    const scrobbles = Array.isArray(stored) ? (stored as StoredScrobble[]) : [];
+    const durations = await readJsonFileOr<DurationCache>(ctx.path('raw-data', 'lastfm-track-durations.json'), {});
+
+    const lastUts = scrobbles.reduce((max, s) => Math.max(max, s.uts), 0);
+    const maxPages = positiveIntEnv(ctx.optionalEnv('LASTFM_SCROBBLE_MAX_PAGES'), DEFAULT_MAX_PAGES);
+    const fetched = await fetchScrobbles(auth, lastUts + 1, Math.floor(ctx.now.getTime() / 1000), maxPages, ctx.log);
+    ctx.log.info(`Fetched ${fetched.length} new scrobbles`, { since: lastUts ? new Date(lastUts * 1000).toISOString() : null });
+
+    // The fetch re-reads the newest second it has seen, so dedupe on the whole scrobble.
+    const seen = new Set(scrobbles.map((s) => `${s.uts}\t${durationKey(s)}`));
+    const merged = [...scrobbles];
+    for (const s of fetched) {
+      const key = `${s.uts}\t${durationKey(s)}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      merged.push(s);
+    }
+
+    // Ignored artists are dropped before they're stored, not just hidden from the output.
+    const ignored = parseIgnoredArtistsEnv();
+    const kept = merged.filter((s) => !ignored.has(normalizeArtistName(s.artist))).sort((a, b) => a.uts - b.uts);
+
+    const maxLookups = positiveIntEnv(ctx.optionalEnv('LASTFM_DURATION_LOOKUPS'), DEFAULT_DURATION_LOOKUPS);
+    return {
+      timeZone: (await resolveTimeZone()).timeZone,
+      scrobbles: kept,
+      durations: await lookupDurations(auth.api_key, kept, durations, maxLookups, ctx.log)
+    };
+  },
+  normalize({ timeZone, scrobbles, durations }, ctx) {
+    const { days, heatmap } = summarize(scrobbles, durations, timeZone);
+    const output: ListeningOutput = {
+      updatedAt: ctx.now.toISOString(),
+      timezone: timeZone,
+      totalScrobbles: scrobbles.length,
+      from: days[0]?.date ?? null,
+      to: days[days.length - 1]?.date ?? null,
+      days,
+      heatmap
+    };
+    return [
+      { path: 'raw-data/lastfm-scrobbles.json', data: scrobbles },
+      { path: 'raw-data/lastfm-track-durations.json', data: durations },
+      {
+        path: 'api/listening.json',
+        data: output,
+        summary: `${scrobbles.length} scrobbles over ${days.length} days`
+      }
+    ];
+  }
+});
+
+runSourceScript(import.meta.url, scrobblesSource);
@@ -0,0 +1,113 @@
+import { fetchJson, normalizeWhitespace, upstreamError } from '../core/index.js';
+
+/* Last.fm API client pieces shared by the music and scrobbles sources. */
+
+export type LastFmImage = {
+  ['#text']?: string;
+  size?: string;
+};
+
+export type LastFmArtist = {
+  name?: string;
+  playcount?: string;
+  image?: LastFmImage[];
+};
+
+export type LastFmTrack = {
+  name?: string;
+  playcount?: string;
+  artist?: { name?: string; ['#text']?: string };
+  album?: { ['#text']?: string };
+  image?: LastFmImage[];
+  date?: { uts?: string };
+  ['@attr']?: { nowplaying?: string };
+};
+
+export type LastFmAlbum = {
+  name?: string;
+  playcount?: string;
+  artist?: { name?: string };
+  image?: LastFmImage[];
+};
+
+export type OneOrMany<T> = T[] | T | undefined;
+
+type LastFmError = { error?: number; message?: string };
+
+export function normalizeArtistName(name: string): string {
+  return normalizeWhitespace(name).toLowerCase();
+}
+
+export function parseIgnoredArtistsEnv(): Set<string> {
+  const raw = process.env.LASTFM_IGNORED_ARTISTS;
+  if (!raw || !normalizeWhitespace(raw)) {
+    return new Set();
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!Array.isArray(parsed)) {
+      return new Set();
+    }
+
+    const normalized = parsed
+      .filter((v): v is string => typeof v === 'string')
+      .map((v) => normalizeArtistName(v))
+      .filter((v) => v.length > 0);
+
+    return new Set(normalized);
+  } catch {
+    return new Set();
+  }
+}
+
+export function pickBestImage(images: LastFmImage[] | undefined): string | null {
+  if (!images || images.length === 0) return null;
+
+  const bySize = new Map<string, string>();
+  for (const img of images) {
+    const url = normalizeWhitespace(img['#text'] || '');
+    const size = normalizeWhitespace(img.size || '').toLowerCase();
+    if (url) {
+      if (size) bySize.set(size, url);
+    }
+  }
+
+  const preferred = ['mega', 'extralarge', 'large', 'medium', 'small'];
+  for (const size of preferred) {
+    const url = bySize.get(size);
+    if (url) return url;
+  }
+
+  // Fallback to any non-empty image URL
+  for (const img of images) {
+    const url = normalizeWhitespace(img['#text'] || '');
+    if (url) return url;
+  }
+
+  return null;
+}
+
+export function toArray<T>(v: OneOrMany<T>): T[] {
+  if (!v) return [];
+  return Array.isArray(v) ? v : [v];
+}
+
+export function toCount(v: string | undefined): number | null {
+  const n = Number.parseInt(normalizeWhitespace(v || ''), 10);
+  return Number.isNaN(n) ? null : n;
+}
+
+export async function lastfm<T>(method: string, params: Record<string, string>): Promise<T> {
+  const url = new URL('https://ws.audioscrobbler.com/2.0/');
+  url.searchParams.set('method', method);
+  for (const [k, v] of Object.entries(params)) url.searchParams.set(k, v);
+  url.searchParams.set('format', 'json');
+
+  const data = await fetchJson<T & LastFmError>('Last.fm', url.toString());
+  if (typeof data.error === 'number') {
+    throw upstreamError(`Last.fm API error ${data.error}: ${data.message || 'Unknown error'}`, { details: { code: data.error } });
+  }
+  return data;
+}
+
@@ -0,0 +1,57 @@
+import { schema, type Schema } from '../core/index.js';
+
+/* Shapes shared by every music source, so Last.fm and Spotify lists can be merged. */
+
+/** Entries kept per top list. */
+export const TOP_LIMIT = 15;
+
+export type MusicArtist = {
+  name: string;
+  /** null for Spotify-only artists merged into music.json: Spotify has no play counts. */
+  playcount: number | null;
+  image: string | null;
+};
+
+export type MusicTrack = {
+  name: string;
+  artist: string;
+  playcount: number;
+  image: string | null;
+};
+
+export type MusicAlbum = {
+  name: string;
+  artist: string;
+  playcount: number;
+  image: string | null;
+};
+
+export type Scrobble = {
+  name: string;
+  artist: string;
+  album: string | null;
+  image: string | null;
+  /** null while the track is still playing. */
+  playedAt: string | null;
+};
+
+export const musicArtistSchema: Schema<MusicArtist> = schema.object({
+  name: schema.string({ minLength: 1 }),
+  playcount: schema.nullable(schema.integer({ minimum: 0 })),
+  image: schema.nullable(schema.string()),
+});
+
+export const musicItemSchema: Schema<MusicTrack> = schema.object({
+  name: schema.string({ minLength: 1 }),
+  artist: schema.string({ minLength: 1 }),
+  playcount: schema.integer({ minimum: 0 }),
+  image: schema.nullable(schema.string()),
+});
+
+export const scrobbleSchema: Schema<Scrobble> = schema.object({
+  name: schema.string({ minLength: 1 }),
+  artist: schema.string({ minLength: 1 }),
+  album: schema.nullable(schema.string()),
+  image: schema.nullable(schema.string()),
+  playedAt: schema.nullable(schema.string({ format: 'date-time' })),
+});
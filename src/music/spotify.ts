@@ -0,0 +1,57 @@
+import { fetchJson, upstreamError } from '../core/index.js';
+
+/* Spotify Web API client: refresh-token auth and the few GETs the spotify source needs. */
+
+export type SpotifyImage = { url?: string; width?: number | null; height?: number | null };
+
+export type SpotifyArtist = { id?: string; name?: string; images?: SpotifyImage[] };
+
+export type SpotifyTrack = {
+  id?: string;
+  name?: string;
+  artists?: { name?: string }[];
+  album?: { name?: string; images?: SpotifyImage[] };
+};
+
+export type SpotifyPlay = { track?: SpotifyTrack; played_at?: string };
+
+export type SpotifyAudioFeatures = { id?: string; energy?: number; valence?: number; tempo?: number } | null;
+
+export type SpotifyCredentials = { clientId: string; clientSecret: string; refreshToken: string };
+
+const API = 'https://api.spotify.com/v1';
+const TOKEN_HINT = 'Check SPOTIFY_CLIENT_ID/SPOTIFY_CLIENT_SECRET, and that SPOTIFY_REFRESH_TOKEN was granted user-top-read and user-read-recently-played.';
+
+/** Exchange the long-lived refresh token for an access token. */
+export async function spotifyAccessToken(credentials: SpotifyCredentials): Promise<string> {
+  const basic = Buffer.from(`${credentials.clientId}:${credentials.clientSecret}`).toString('base64');
+  const json = await fetchJson<{ access_token?: string }>(
+    'Spotify token',
+    'https://accounts.spotify.com/api/token',
+    {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${basic}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({ grant_type: 'refresh_token', refresh_token: credentials.refreshToken }).toString()
+    },
+    TOKEN_HINT
+  );
+  if (!json.access_token) {
+    throw upstreamError('Spotify token response had no access_token.', { hint: TOKEN_HINT });
+  }
+  return json.access_token;
+}
+
+export async function spotifyGet<T>(token: string, path: string, params: Record<string, string> = {}): Promise<T> {
+  const url = new URL(`${API}${path}`);
+  for (const [k, v] of Object.entries(params)) url.searchParams.set(k, v);
+  return fetchJson<T>('Spotify', url.toString(), { headers: { Authorization: `Bearer ${token}` } });
+}
+
+/** Largest image; Spotify lists them widest first but doesn't promise to. */
+export function largestImage(images: SpotifyImage[] | undefined): string | null {
+  const sorted = (images ?? []).filter((i) => i.url).sort((a, b) => (b.width ?? 0) - (a.width ?? 0));
+  return sorted[0]?.url ?? null;
+}
@@ -0,0 +1,113 @@
+import { normalizeWhitespace, schema, type Schema } from '../core/index.js';
+
+/*
+ * Achievement progress and unlocks for api/games.json. OpenXBL proxies Xbox
+ * Live, so both providers hand back the same payloads: the `achievement`
+ * decoration on title history, and contract-v2 achievement lists.
+ */
+
+export type TitleProgress = {
+  titleId: string;
+  name: string;
+  earned: number;
+  total: number;
+  gamerscore: number;
+  totalGamerscore: number;
+  /** From the title's MinutesPlayed stat; null beyond the most recent few titles or when the provider doesn't expose it. */
+  minutesPlayed: number | null;
+};
+
+export type AchievementRarity = {
+  /** Xbox's bucket, e.g. "Rare" or "Common". */
+  category: string;
+  /** Share of players who unlocked it. */
+  percent: number;
+};
+
+export type UnlockedAchievement = {
+  titleId: string;
+  title: string;
+  name: string;
+  description: string | null;
+  unlockedAt: string;
+  gamerscore: number;
+  rarity: AchievementRarity | null;
+  image: string | null;
+};
+
+export const titleProgressSchema: Schema<TitleProgress> = schema.object({
+  titleId: schema.string({ minLength: 1 }),
+  name: schema.string({ minLength: 1 }),
+  earned: schema.integer({ minimum: 0 }),
+  total: schema.integer({ minimum: 0 }),
+  gamerscore: schema.integer({ minimum: 0 }),
+  totalGamerscore: schema.integer({ minimum: 0 }),
+  minutesPlayed: schema.nullable(schema.integer({ minimum: 0 }))
+});
+
+export const unlockedAchievementSchema: Schema<UnlockedAchievement> = schema.object({
+  titleId: schema.string({ minLength: 1 }),
+  title: schema.string({ minLength: 1 }),
+  name: schema.string({ minLength: 1 }),
+  description: schema.nullable(schema.string()),
+  unlockedAt: schema.string({ format: 'date-time' }),
+  gamerscore: schema.integer({ minimum: 0 }),
+  rarity: schema.nullable(schema.object({ category: schema.string({ minLength: 1 }), percent: schema.number({ minimum: 0 }) })),
+  image: schema.nullable(schema.string())
+});
+
+type RawAchievement = {
+  name?: string;
+  description?: string;
+  progressState?: string;
+  progression?: { timeUnlocked?: string };
+  rarity?: { currentCategory?: string; currentPercentage?: number };
+  rewards?: { type?: string; value?: string | number }[];
+  mediaAssets?: { type?: string; url?: string }[];
+};
+
+function count(v: unknown): number {
+  const n = typeof v === 'string' ? Number(v) : v;
+  return typeof n === 'number' && Number.isFinite(n) && n > 0 ? Math.round(n) : 0;
+}
+
+/** Progress from a title-history entry's `achievement` decoration; null for titles without achievements. */
+export function titleProgress(title: Record<string, unknown>, name: string, titleId: string, minutesPlayed: number | null): TitleProgress | null {
+  const a = title.achievement as Record<string, unknown> | undefined;
+  if (!a || count(a.totalAchievements) === 0) return null;
+  return {
+    titleId,
+    name,
+    earned: count(a.currentAchievements),
+    total: count(a.totalAchievements),
+    gamerscore: count(a.currentGamerscore),
+    totalGamerscore: count(a.totalGamerscore),
+    minutesPlayed
+  };
+}
+
+/** The unlocked achievements in a title's achievement list. */
+export function unlockedAchievements(list: unknown[], titleId: string, title: string): UnlockedAchievement[] {
+  const out: UnlockedAchievement[] = [];
+  for (const item of list) {
+    if (!item || typeof item !== 'object') continue;
+    const a = item as RawAchievement;
+    const name = normalizeWhitespace(a.name || '');
+    const unlocked = a.progression?.timeUnlocked ? new Date(a.progression.timeUnlocked) : null;
+    // Locked achievements carry 0001-01-01 as their unlock time.
+    if (a.progressState !== 'Achieved' || !name || !unlocked || Number.isNaN(unlocked.getTime()) || unlocked.getUTCFullYear() <= 1970) continue;
+    const category = normalizeWhitespace(a.rarity?.currentCategory || '');
+    const percent = a.rarity?.currentPercentage;
+    out.push({
+      titleId,
+      title,
+      name,
+      description: normalizeWhitespace(a.description || '') || null,
+      unlockedAt: unlocked.toISOString(),
+      gamerscore: count(a.rewards?.find((r) => r.type === 'Gamerscore')?.value),
+      rarity: category && typeof percent === 'number' ? { category, percent } : null,
+      image: a.mediaAssets?.find((m) => m.type === 'Icon' && m.url)?.url ?? null
+    });
+  }
+  return out;
+}
@@ -1,36 +1,99 @@
-import { mkdir, writeFile } from 'node:fs/promises';
-import { dirname, join } from 'node:path';
-import { fileURLToPath } from 'node:url';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+import {
+  configError,
+  defineSource,
+  fetchJson,
+  formatIssues,
+  normalizeWhitespace,
+  readJsonFileOr,
+  resolveTimeZone,
+  runSourceScript,
+  schema,
+  validate,
+  type Logger,
+  type SourceContext,
+  type Schema
+} from '../core/index.js';
+import { psnOutputSchema, trophySummarySchema, type PsnOutput, type TrophySummary } from '../psn/build-psn.js';
+import {
+  fetchGamerscore,
+  fetchMinutesPlayed,
+  fetchTitleAchievements,
+  fetchTitleHistory,
+  gamerscoreFromProfile,
+  minutesPlayedFromStats,
+  signIn
+} from '../xbox/xbox-live.js';
+import {
+  titleProgress,
+  titleProgressSchema,
+  unlockedAchievements,
+  unlockedAchievementSchema,
+  type TitleProgress,
+  type UnlockedAchievement
+} from './achievements.js';
+import {
+  diffSnapshots,
+  gamesHistoryOutputSchema,
+  nextSnapshot,
+  summarizeSessions,
+  type GamesHistoryOutput,
+  type TitleDiff,
+  type TitleSnapshot,
+  type TitleState
+} from './sessions.js';
 
 const OPENXBL_BASE = 'https://xbl.io/api/v2';
+const RECENT_LIMIT = 10;
+/** Most recent titles whose achievements and stats are fetched; each costs two requests. */
+const DETAIL_TITLES = 5;
+const UNLOCKED_LIMIT = 10;
 
-type RecentGame = {
+export type RecentGame = {
   name: string;
   titleId: string;
   lastPlayed: string | null;
-  platform: 'pc' | 'xbox' | 'unknown';
+  platform: 'pc' | 'xbox' | 'playstation' | 'unknown';
   image: string | null;
 };
 
-type GamesOutput = {
+/** Where the title history came from: OpenXBL, or Xbox Live directly via xbox-webapi. */
+export type GamesProvider = 'openxbl' | 'xbox-webapi';
+
+/** Every provider that contributed to games.json: the Xbox provider, plus "+psn" when PlayStation games were merged in. */
+export type GamesSource = GamesProvider | `${GamesProvider}+psn`;
+
+export type GamesOutput = {
   updatedAt: string;
-  source: 'openxbl';
+  source: GamesSource;
   recentGames: RecentGame[];
+  /** Overall gamerscore. */
+  gamerscore?: number | null;
+  /** Achievement progress for the recent games that have achievements. */
+  progress?: TitleProgress[];
+  /** Latest unlocks across the most recent titles, newest first. */
+  recentAchievements?: UnlockedAchievement[];
+  /** PSN trophy summary, when PlayStation games are merged in. */
+  trophies?: TrophySummary | null;
 };
 
-function normalizeWhitespace(str: string): string {
-  return str.trim().replace(/\s+/g, ' ');
-}
+export const recentGameSchema: Schema<RecentGame> = schema.object({
+  name: schema.string({ minLength: 1 }),
+  titleId: schema.string({ minLength: 1 }),
+  lastPlayed: schema.nullable(schema.string({ format: 'date-time' })),
+  platform: schema.literal('pc', 'xbox', 'playstation', 'unknown'),
+  image: schema.nullable(schema.string())
+});
 
-/** Safe snippet for error messages: no secrets, limited length. */
-function safeSnippet(text: string, maxLen: number = 200): string {
-  const s = String(text).trim();
-  if (s.length <= maxLen) return s;
-  return s.slice(0, maxLen) + '...';
-}
+export const gamesOutputSchema: Schema<GamesOutput> = schema.object({
+  updatedAt: schema.string({ format: 'date-time' }),
+  source: schema.literal('openxbl', 'xbox-webapi', 'openxbl+psn', 'xbox-webapi+psn'),
+  recentGames: schema.array(recentGameSchema),
+  // Optional so archived versions from before these sections still validate.
+  gamerscore: schema.optional(schema.nullable(schema.integer({ minimum: 0 }))),
+  progress: schema.optional(schema.array(titleProgressSchema)),
+  recentAchievements: schema.optional(schema.array(unlockedAchievementSchema)),
+  trophies: schema.optional(schema.nullable(trophySummarySchema))
+});
 
 /** Collect image URL candidates from a title-like object. */
 function collectImageCandidates(obj: Record<string, unknown>): { url: string; type?: string }[] {
@@ -86,8 +149,9 @@ function guessPlatform(obj: Record<string, unknown>): 'pc' | 'xbox' | 'unknown'
     if (obj[key] !== undefined) add(obj[key]);
   }
   const combined = parts.join(' ').toLowerCase();
-  if (/\b(pc|windows)\b/.test(combined)) return 'pc';
-  if (/\b(xbox|scarlett|durango)\b/.test(combined)) return 'xbox';
+  if (/\b(pc|windows|win32)\b/.test(combined)) return 'pc';
+  // Titlehub device names run together: XboxOne, XboxSeries, Xbox360.
+  if (/\b(xbox\w*|scarlett|durango)\b/.test(combined)) return 'xbox';
   return 'unknown';
 }
 
@@ -132,7 +196,7 @@ function getName(obj: Record<string, unknown>): string {
 }
 
 /** Normalize a single raw title into our shape; include extra fields for raw debug file. */
-function normalizeTitle(raw: Record<string, unknown>): RecentGame & { _raw?: Record<string, unknown> } {
+export function normalizeTitle(raw: Record<string, unknown>): RecentGame & { _raw?: Record<string, unknown> } {
   const name = getName(raw);
   const titleId = getTitleId(raw);
   const lastPlayed = parseLastPlayed(raw);
@@ -149,7 +213,7 @@ function normalizeTitle(raw: Record<string, unknown>): RecentGame & { _raw?: Rec
 }
 
 /** Extract titles array from OpenXBL response (handles multiple shapes). */
-function extractTitles(data: unknown): Record<string, unknown>[] {
+export function extractTitles(data: unknown): Record<string, unknown>[] {
   if (!data || typeof data !== 'object') return [];
   const o = data as Record<string, unknown>;
   if (Array.isArray(o.titles)) return o.titles as Record<string, unknown>[];
@@ -162,86 +226,256 @@ function extractTitles(data: unknown): Record<string, unknown>[] {
   return [];
 }
 
-async function main() {
-  const apiKey = process.env.OPENXBL_API_KEY;
-  const xuid = process.env.XBOX_XUID;
+/** Per-title extras; null where the provider refused or doesn't have them. */
+type TitleDetails = { titleId: string; achievements: unknown[] | null; minutesPlayed: number | null };
 
-  if (!apiKey || !normalizeWhitespace(apiKey)) {
-    console.error('Missing or empty OPENXBL_API_KEY. Set the env var and try again.');
-    process.exit(1);
-  }
-  if (!xuid || !normalizeWhitespace(xuid)) {
-    console.error('Missing or empty XBOX_XUID. Set the env var and try again.');
-    process.exit(1);
-  }
+type RawTitleHistory = {
+  provider: GamesProvider;
+  xuid: string;
+  data: unknown;
+  gamerscore: number | null;
+  details: TitleDetails[];
+};
 
-  const url = `${OPENXBL_BASE}/player/titleHistory/${encodeURIComponent(xuid.trim())}`;
-  const res = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'X-Authorization': apiKey.trim(),
-      'Accept': 'application/json',
-      'Accept-Language': 'en-US',
-    }
-  });
+type DetailLookups = {
+  gamerscore(): Promise<number | null>;
+  achievements(titleId: string): Promise<unknown[]>;
+  minutesPlayed(titleId: string): Promise<number | null>;
+};
 
-  const responseText = await res.text();
-  if (!res.ok) {
-    console.error(`OpenXBL request failed: HTTP ${res.status} ${res.statusText}.`);
-    console.error('Response snippet (no secrets):', safeSnippet(responseText));
-    process.exit(1);
-  }
+/** Extras are best-effort: a failed lookup is logged and left null rather than failing the run. */
+async function fetchDetails(data: unknown, lookups: DetailLookups, log: Logger): Promise<Pick<RawTitleHistory, 'gamerscore' | 'details'>> {
+  const soft = async <T>(what: string, lookup: () => Promise<T>): Promise<T | null> => {
+    try {
+      return await lookup();
+    } catch (err) {
+      log.warn(`Could not fetch ${what}`, { error: err instanceof Error ? err.message : String(err) });
+      return null;
+    }
+  };
 
-  let data: unknown;
-  try {
-    data = JSON.parse(responseText);
-  } catch {
-    console.error('OpenXBL response was not valid JSON.');
-    console.error('Response snippet:', safeSnippet(responseText));
-    process.exit(1);
+  const titleIds = extractTitles(data)
+    .map((t) => getTitleId(t))
+    .filter(Boolean)
+    .slice(0, DETAIL_TITLES);
+  const details: TitleDetails[] = [];
+  for (const titleId of titleIds) {
+    details.push({
+      titleId,
+      achievements: await soft(`achievements for ${titleId}`, () => lookups.achievements(titleId)),
+      minutesPlayed: await soft(`stats for ${titleId}`, () => lookups.minutesPlayed(titleId))
+    });
   }
+  return { gamerscore: await soft('gamerscore', () => lookups.gamerscore()), details };
+}
 
-  const rawTitles = extractTitles(data);
-  const normalized = rawTitles
-    .filter((t) => t && typeof t === 'object')
-    .map((t) => normalizeTitle(t as Record<string, unknown>));
-
-  const recentGames: RecentGame[] = normalized.slice(0, 10).map(({ _raw, ...rest }) => rest);
-
-  const rawForFile = {
-    _fetchedAt: new Date().toISOString(),
-    _xuidUsed: xuid.trim(),
-    _titleCount: rawTitles.length,
-    titles: normalized.map((n) => ({
-      name: n.name,
-      titleId: n.titleId,
-      lastPlayed: n.lastPlayed,
-      platform: n.platform,
-      image: n.image,
-      _raw: n._raw
-    }))
-  };
+async function fetchOpenXbl(ctx: SourceContext): Promise<RawTitleHistory> {
+  const apiKey = ctx.env('OPENXBL_API_KEY');
+  const xuid = ctx.env('XBOX_XUID');
+
+  const get = <T>(path: string) =>
+    fetchJson<T>('OpenXBL', `${OPENXBL_BASE}${path}`, {
+      method: 'GET',
+      headers: {
+        'X-Authorization': apiKey,
+        'Accept': 'application/json',
+        'Accept-Language': 'en-US',
+      }
+    });
+  const id = encodeURIComponent(xuid);
+  const data = await get<unknown>(`/player/titleHistory/${id}`);
+  const extras = await fetchDetails(
+    data,
+    {
+      gamerscore: async () => gamerscoreFromProfile(await get<unknown>(`/account/${id}`)),
+      achievements: async (titleId) =>
+        (await get<{ achievements?: unknown[] }>(`/achievements/player/${id}/${encodeURIComponent(titleId)}`)).achievements ?? [],
+      minutesPlayed: async (titleId) => minutesPlayedFromStats(await get<unknown>(`/achievements/stats/${encodeURIComponent(titleId)}`))
+    },
+    ctx.log
+  );
+  return { provider: 'openxbl', xuid, data, ...extras };
+}
 
-  const gamesOutput: GamesOutput = {
-    updatedAt: new Date().toISOString(),
-    source: 'openxbl',
-    recentGames
-  };
+async function fetchXboxLive(ctx: SourceContext): Promise<RawTitleHistory> {
+  const session = await signIn({
+    clientId: ctx.env('XBOX_CLIENT_ID'),
+    clientSecret: ctx.optionalEnv('XBOX_CLIENT_SECRET'),
+    refreshToken: ctx.env('XBOX_REFRESH_TOKEN')
+  });
+  const data = { titles: await fetchTitleHistory(session) };
+  const extras = await fetchDetails(
+    data,
+    {
+      gamerscore: () => fetchGamerscore(session),
+      achievements: (titleId) => fetchTitleAchievements(session, titleId),
+      minutesPlayed: (titleId) => fetchMinutesPlayed(session, titleId)
+    },
+    ctx.log
+  );
+  return { provider: 'xbox-webapi', xuid: session.xuid, data, ...extras };
+}
 
-  const projectRoot = join(__dirname, '../..');
-  const rawPath = join(projectRoot, 'raw-data', 'openxbl-raw.json');
-  const apiPath = join(projectRoot, 'api', 'games.json');
+/**
+ * GAMES_PROVIDER picks the title-history provider: "openxbl", "xbox", or
+ * "auto" (the default), which uses OpenXBL when OPENXBL_API_KEY is set and
+ * falls back to Xbox Live when it isn't or when OpenXBL fails.
+ */
+async function fetchTitleHistoryFromProvider(ctx: SourceContext): Promise<RawTitleHistory> {
+  const choice = ctx.optionalEnv('GAMES_PROVIDER') ?? 'auto';
+  if (choice === 'openxbl') return fetchOpenXbl(ctx);
+  if (choice === 'xbox') return fetchXboxLive(ctx);
+  if (choice !== 'auto') {
+    throw configError(`Unknown GAMES_PROVIDER: ${choice}`, { hint: 'Use openxbl, xbox or auto.' });
+  }
 
-  await mkdir(dirname(rawPath), { recursive: true });
-  await mkdir(dirname(apiPath), { recursive: true });
+  if (!ctx.optionalEnv('OPENXBL_API_KEY')) return fetchXboxLive(ctx);
+  try {
+    return await fetchOpenXbl(ctx);
+  } catch (err) {
+    if (!ctx.optionalEnv('XBOX_REFRESH_TOKEN')) throw err;
+    ctx.log.warn('OpenXBL failed; falling back to Xbox Live', { error: err instanceof Error ? err.message : String(err) });
+    return fetchXboxLive(ctx);
+  }
+}
 
-  await writeFile(rawPath, JSON.stringify(rawForFile, null, 2) + '\n', 'utf-8');
-  await writeFile(apiPath, JSON.stringify(gamesOutput, null, 2) + '\n', 'utf-8');
+async function readPsn(path: string, log: Logger): Promise<PsnOutput | null> {
+  const data = await readJsonFileOr<unknown>(path, null);
+  if (data === null) {
+    log.warn('GAMES_MERGE_PSN is set but api/psn.json is missing; run psn first');
+    return null;
+  }
+  const issues = validate(psnOutputSchema, data);
+  if (issues.length > 0) {
+    log.warn(`Not merging api/psn.json: ${formatIssues(issues)}`);
+    return null;
+  }
+  return data as PsnOutput;
+}
 
-  console.log(`Wrote raw-data/openxbl-raw.json and api/games.json (${recentGames.length} recent games)`);
+/** One cross-platform list, most recently played first; titles without a lastPlayed go last. */
+function mergeRecentGames(...lists: RecentGame[][]): RecentGame[] {
+  return lists
+    .flat()
+    .sort((a, b) => (b.lastPlayed ?? '').localeCompare(a.lastPlayed ?? ''))
+    .slice(0, RECENT_LIMIT);
 }
 
-main().catch((err) => {
-  console.error('Fatal error:', err instanceof Error ? err.message : String(err));
-  process.exit(1);
+export const openxblSource = defineSource({
+  name: 'openxbl',
+  description: 'Recently played Xbox/PC titles via OpenXBL, or Xbox Live directly (GAMES_PROVIDER), plus PSN (GAMES_MERGE_PSN)',
+  outputs: [
+    { path: 'raw-data/openxbl-raw.json' },
+    { path: 'raw-data/games-snapshot.json' },
+    { path: 'raw-data/games-diff-log.json' },
+    { path: 'api/games.json', schema: gamesOutputSchema, refreshEvery: '1d' },
+    {
+      path: 'api/games-history.json',
+      schema: gamesHistoryOutputSchema,
+      refreshEvery: '1d',
+      // Rebuilt from the diff log every run, like the timeline.
+      history: { keepDailyDays: 7, keepMonthlyMonths: 3 }
+    }
+  ],
+  async fetch(ctx) {
+    const history = await fetchTitleHistoryFromProvider(ctx);
+    // ENOENT or invalid JSON: start over with no baseline
+    const snapshot = await readJsonFileOr<TitleSnapshot | null>(ctx.path('raw-data', 'games-snapshot.json'), null);
+    const diffLog = await readJsonFileOr<unknown>(ctx.path('raw-data', 'games-diff-log.json'), []);
+    return {
+      ...history,
+      snapshot: snapshot && Array.isArray(snapshot.titles) ? snapshot : null,
+      diffLog: Array.isArray(diffLog) ? (diffLog as TitleDiff[]) : [],
+      psn: ctx.optionalEnv('GAMES_MERGE_PSN') === 'true' ? await readPsn(ctx.path('api', 'psn.json'), ctx.log) : null,
+      timeZone: (await resolveTimeZone()).timeZone
+    };
+  },
+  normalize({ provider, xuid, data, gamerscore, details, snapshot, diffLog, psn, timeZone }, ctx) {
+    const rawTitles = extractTitles(data);
+    const normalized = rawTitles
+      .filter((t) => t && typeof t === 'object')
+      .map((t) => normalizeTitle(t as Record<string, unknown>));
+
+    const recentGames = mergeRecentGames(
+      normalized.slice(0, RECENT_LIMIT).map(({ _raw, ...rest }) => rest),
+      psn?.recentGames ?? []
+    );
+
+    const detailsById = new Map(details.map((d) => [d.titleId, d]));
+    const progress = normalized
+      .slice(0, RECENT_LIMIT)
+      .map((n) => titleProgress(n._raw ?? {}, n.name, n.titleId, detailsById.get(n.titleId)?.minutesPlayed ?? null))
+      .filter((p): p is TitleProgress => p !== null && p.name.length > 0 && p.titleId.length > 0);
+
+    const names = new Map(normalized.map((n) => [n.titleId, n.name]));
+    const recentAchievements = details
+      .flatMap((d) => unlockedAchievements(d.achievements ?? [], d.titleId, names.get(d.titleId) || d.titleId))
+      .sort((a, b) => b.unlockedAt.localeCompare(a.unlockedAt))
+      .slice(0, UNLOCKED_LIMIT);
+
+    const rawForFile = {
+      _fetchedAt: ctx.now.toISOString(),
+      _provider: provider,
+      _xuidUsed: xuid,
+      _titleCount: rawTitles.length,
+      _gamerscore: gamerscore,
+      _details: details,
+      titles: normalized.map((n) => ({
+        name: n.name,
+        titleId: n.titleId,
+        lastPlayed: n.lastPlayed,
+        platform: n.platform,
+        image: n.image,
+        _raw: n._raw
+      }))
+    };
+
+    const gamesOutput: GamesOutput = {
+      updatedAt: ctx.now.toISOString(),
+      source: psn ? `${provider}+psn` : provider,
+      recentGames,
+      gamerscore,
+      progress,
+      recentAchievements,
+      ...(psn ? { trophies: psn.trophies } : {})
+    };
+
+    const capturedAt = ctx.now.toISOString();
+    const states: TitleState[] = normalized
+      .filter((n) => n.titleId)
+      .map((n) => ({
+        titleId: n.titleId,
+        name: n.name,
+        platform: n.platform,
+        lastPlayed: n.lastPlayed,
+        minutesPlayed: detailsById.get(n.titleId)?.minutesPlayed ?? null
+      }));
+    const psnMinutes = new Map((psn?.playtime ?? []).map((p) => [p.titleId, p.minutesPlayed]));
+    for (const g of psn?.recentGames ?? []) {
+      states.push({ titleId: g.titleId, name: g.name, platform: g.platform, lastPlayed: g.lastPlayed, minutesPlayed: psnMinutes.get(g.titleId) ?? null });
+    }
+    const diffs = snapshot ? diffSnapshots(snapshot, states, capturedAt) : [];
+    const log = [...diffLog, ...diffs];
+    const next = nextSnapshot(snapshot, states, capturedAt);
+    const historyOutput: GamesHistoryOutput = {
+      updatedAt: capturedAt,
+      timezone: timeZone,
+      since: next.firstCapturedAt,
+      ...summarizeSessions(log, timeZone)
+    };
+
+    return [
+      { path: 'raw-data/openxbl-raw.json', data: rawForFile },
+      { path: 'raw-data/games-snapshot.json', data: next },
+      { path: 'raw-data/games-diff-log.json', data: log },
+      { path: 'api/games.json', data: gamesOutput, summary: `${recentGames.length} recent games, ${recentAchievements.length} recent achievements` },
+      {
+        path: 'api/games-history.json',
+        data: historyOutput,
+        summary: snapshot ? `${diffs.length} new sessions, ${log.length} total` : 'baseline snapshot; sessions start with the next fetch'
+      }
+    ];
+  }
 });
+
+runSourceScript(import.meta.url, openxblSource);
@@ -0,0 +1,219 @@
+import { localDate, schema, weekOf, type Schema } from '../core/index.js';
+import type { RecentGame } from './build-openxbl.js';
+
+/*
+ * Play sessions inferred from successive title-history fetches. Each fetch is
+ * compared with the previous snapshot; every title whose lastPlayed moved
+ * forward goes into the diff log and counts as one session that ended at the
+ * new lastPlayed. Its length is the MinutesPlayed delta when both fetches had
+ * the stat, otherwise DEFAULT_SESSION_MINUTES, never more than the time since
+ * the previous fetch. Several sittings between two fetches collapse into one.
+ */
+
+export const DEFAULT_SESSION_MINUTES = 60;
+const RECENT_SESSIONS = 20;
+
+export type TitleState = {
+  titleId: string;
+  name: string;
+  platform: RecentGame['platform'];
+  lastPlayed: string | null;
+  minutesPlayed: number | null;
+};
+
+/** raw-data/games-snapshot.json: the previous fetch, to diff the next one against. */
+export type TitleSnapshot = {
+  /** First fetch ever diffed; history starts here. */
+  firstCapturedAt: string;
+  capturedAt: string;
+  titles: TitleState[];
+};
+
+/** One entry of raw-data/games-diff-log.json. */
+export type TitleDiff = {
+  capturedAt: string;
+  previousCapturedAt: string;
+  titleId: string;
+  name: string;
+  platform: RecentGame['platform'];
+  /** null for a title that wasn't in the previous snapshot. */
+  previousLastPlayed: string | null;
+  lastPlayed: string;
+  minutesDelta: number | null;
+};
+
+export type GameSession = {
+  titleId: string;
+  name: string;
+  platform: RecentGame['platform'];
+  /** Local date the session ended on. */
+  date: string;
+  endedAt: string;
+  minutes: number;
+  /** "stat" when minutes came from MinutesPlayed, "estimate" otherwise. */
+  basis: 'stat' | 'estimate';
+};
+
+export type GamingDay = {
+  date: string;
+  minutes: number;
+  sessions: number;
+  titles: string[];
+};
+
+export type GamingWeek = {
+  weekStart: string;
+  weekEnd: string;
+  minutes: number;
+  sessions: number;
+  titles: { titleId: string; name: string; minutes: number; sessions: number }[];
+};
+
+export type GamesHistoryOutput = {
+  updatedAt: string;
+  timezone: string;
+  /** When session tracking started; nothing before it is known. */
+  since: string;
+  days: GamingDay[];
+  weeks: GamingWeek[];
+  recentSessions: GameSession[];
+};
+
+const platformSchema = schema.literal('pc', 'xbox', 'playstation', 'unknown');
+const minutes = schema.integer({ minimum: 0 });
+
+export const gamesHistoryOutputSchema: Schema<GamesHistoryOutput> = schema.object({
+  updatedAt: schema.string({ format: 'date-time' }),
+  timezone: schema.string({ minLength: 1 }),
+  since: schema.string({ format: 'date-time' }),
+  days: schema.array(
+    schema.object({
+      date: schema.string({ format: 'date' }),
+      minutes,
+      sessions: schema.integer({ minimum: 1 }),
+      titles: schema.array(schema.string())
+    })
+  ),
+  weeks: schema.array(
+    schema.object({
+      weekStart: schema.string({ format: 'date' }),
+      weekEnd: schema.string({ format: 'date' }),
+      minutes,
+      sessions: schema.integer({ minimum: 1 }),
+      titles: schema.array(
+        schema.object({
+          titleId: schema.string({ minLength: 1 }),
+          name: schema.string(),
+          minutes,
+          sessions: schema.integer({ minimum: 1 })
+        })
+      )
+    })
+  ),
+  recentSessions: schema.array(
+    schema.object({
+      titleId: schema.string({ minLength: 1 }),
+      name: schema.string(),
+      platform: platformSchema,
+      date: schema.string({ format: 'date' }),
+      endedAt: schema.string({ format: 'date-time' }),
+      minutes,
+      basis: schema.literal('stat', 'estimate')
+    })
+  )
+});
+
+/** Titles whose lastPlayed advanced since `previous`. */
+export function diffSnapshots(previous: TitleSnapshot, titles: TitleState[], capturedAt: string): TitleDiff[] {
+  const before = new Map(previous.titles.map((t) => [t.titleId, t]));
+  const diffs: TitleDiff[] = [];
+  for (const t of titles) {
+    if (!t.lastPlayed) continue;
+    const prev = before.get(t.titleId);
+    const advanced = prev
+      ? prev.lastPlayed === null || t.lastPlayed > prev.lastPlayed
+      : // A title new to the history counts only if it was played after the last fetch.
+        t.lastPlayed > previous.capturedAt;
+    if (!advanced) continue;
+    const delta = prev?.minutesPlayed != null && t.minutesPlayed != null ? t.minutesPlayed - prev.minutesPlayed : null;
+    diffs.push({
+      capturedAt,
+      previousCapturedAt: previous.capturedAt,
+      titleId: t.titleId,
+      name: t.name,
+      platform: t.platform,
+      previousLastPlayed: prev?.lastPlayed ?? null,
+      lastPlayed: t.lastPlayed,
+      minutesDelta: delta !== null && delta >= 0 ? delta : null
+    });
+  }
+  return diffs;
+}
+
+/**
+ * Carry stats forward for titles this fetch had no details for, so later
+ * deltas still work, and keep titles this fetch didn't list at all (PSN only
+ * lists recent games, and may not be merged every run).
+ */
+export function nextSnapshot(previous: TitleSnapshot | null, titles: TitleState[], capturedAt: string): TitleSnapshot {
+  const before = new Map((previous?.titles ?? []).map((t) => [t.titleId, t]));
+  const current = titles.map((t) => ({ ...t, minutesPlayed: t.minutesPlayed ?? before.get(t.titleId)?.minutesPlayed ?? null }));
+  const listed = new Set(titles.map((t) => t.titleId));
+  return {
+    firstCapturedAt: previous?.firstCapturedAt ?? capturedAt,
+    capturedAt,
+    titles: [...current, ...(previous?.titles ?? []).filter((t) => !listed.has(t.titleId))]
+  };
+}
+
+export function toSession(diff: TitleDiff, timeZone: string): GameSession {
+  const windowMinutes = Math.max(0, Math.floor((Date.parse(diff.lastPlayed) - Date.parse(diff.previousCapturedAt)) / 60000));
+  const fromStat = diff.minutesDelta !== null && diff.minutesDelta > 0;
+  const estimate = fromStat ? (diff.minutesDelta as number) : DEFAULT_SESSION_MINUTES;
+  return {
+    titleId: diff.titleId,
+    name: diff.name,
+    platform: diff.platform,
+    date: localDate(new Date(diff.lastPlayed), timeZone),
+    endedAt: diff.lastPlayed,
+    minutes: windowMinutes > 0 ? Math.min(estimate, windowMinutes) : estimate,
+    basis: fromStat ? 'stat' : 'estimate'
+  };
+}
+
+export function summarizeSessions(
+  log: TitleDiff[],
+  timeZone: string
+): Pick<GamesHistoryOutput, 'days' | 'weeks' | 'recentSessions'> {
+  const sessions = log.map((d) => toSession(d, timeZone)).sort((a, b) => a.endedAt.localeCompare(b.endedAt));
+
+  const days = new Map<string, GamingDay>();
+  const weeks = new Map<string, GamingWeek>();
+  for (const s of sessions) {
+    const day = days.get(s.date) ?? { date: s.date, minutes: 0, sessions: 0, titles: [] };
+    day.minutes += s.minutes;
+    day.sessions += 1;
+    if (!day.titles.includes(s.name)) day.titles.push(s.name);
+    days.set(s.date, day);
+
+    const { weekStart, weekEnd } = weekOf(s.date, timeZone);
+    const week = weeks.get(weekStart) ?? { weekStart, weekEnd, minutes: 0, sessions: 0, titles: [] };
+    week.minutes += s.minutes;
+    week.sessions += 1;
+    const title = week.titles.find((t) => t.titleId === s.titleId);
+    if (title) {
+      title.minutes += s.minutes;
+      title.sessions += 1;
+    } else {
+      week.titles.push({ titleId: s.titleId, name: s.name, minutes: s.minutes, sessions: 1 });
+    }
+    weeks.set(weekStart, week);
+  }
+
+  for (const week of weeks.values()) week.titles.sort((a, b) => b.minutes - a.minutes || a.name.localeCompare(b.name));
+  return {
+    days: [...days.values()].sort((a, b) => a.date.localeCompare(b.date)),
+    weeks: [...weeks.values()].sort((a, b) => a.weekStart.localeCompare(b.weekStart)),
+    recentSessions: sessions.slice(-RECENT_SESSIONS).reverse()
+  };
+}
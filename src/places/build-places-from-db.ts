@@ -1,11 +1,6 @@
-import { readFileSync, writeFileSync, mkdirSync } from 'fs';
-import { dirname, join } from 'path';
-import { fileURLToPath } from 'url';
+import { defineSource, normalizeWhitespace, readJsonFile, runSourceScript, schema, type Schema } from '../core/index.js';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
-interface Home {
+export interface Home {
   city: string;
   region: string;
   country: string;
@@ -22,28 +17,41 @@ interface RegisteredData {
   [key: string]: unknown;
 }
 
-interface StatePlace {
+export interface StatePlace {
   region: string;
   country: string;
   firstCity?: string;
 }
 
-interface StatePlaceWithKey extends StatePlace {
+export interface StatePlaceWithKey extends StatePlace {
   key: string;
 }
 
-interface PlacesOutput {
+export interface PlacesOutput {
+  updatedAt?: string;
   home: Home;
   count: number;
   places: StatePlaceWithKey[];
 }
 
-/**
- * Normalize whitespace: trim and collapse internal whitespace
- */
-function normalizeWhitespace(str: string): string {
-  return str.trim().replace(/\s+/g, ' ');
-}
+export const placesOutputSchema: Schema<PlacesOutput> = schema.object({
+  // Optional so archived versions from before builders stamped updatedAt still validate.
+  updatedAt: schema.optional(schema.string({ format: 'date-time' })),
+  home: schema.object({
+    city: schema.string({ minLength: 1 }),
+    region: schema.string({ minLength: 1 }),
+    country: schema.string({ minLength: 1 }),
+  }),
+  count: schema.integer({ minimum: 0 }),
+  places: schema.array(
+    schema.object({
+      region: schema.string({ minLength: 1 }),
+      country: schema.string({ minLength: 1 }),
+      firstCity: schema.optional(schema.string()),
+      key: schema.string({ minLength: 1 }),
+    })
+  ),
+});
 
 /**
  * Normalize a state place by trimming whitespace and creating a dedupe key
@@ -73,99 +81,79 @@ function sortPlaces(places: StatePlaceWithKey[]): StatePlaceWithKey[] {
   });
 }
 
-function main() {
-  const projectRoot = join(__dirname, '../..');
-  const registeredPath = join(projectRoot, 'data/places/registered.json');
-  const homePath = join(projectRoot, 'data/places/home.json');
-  const outputPath = join(projectRoot, 'api/places.json');
-
-  // Read home data
-  let home: Home;
-  try {
-    const homeContent = readFileSync(homePath, 'utf-8');
-    home = JSON.parse(homeContent) as Home;
+export const placesSource = defineSource({
+  name: 'places',
+  description: 'Visited states/regions from data/places/registered.json',
+  outputs: [{ path: 'api/places.json', schema: placesOutputSchema, refreshEvery: '3d' }],
+  async fetch(ctx) {
+    // Read home data
+    const rawHome = await readJsonFile<Home>(ctx.path('data/places/home.json'));
+
+    // Read registered states data
+    const registeredData = await readJsonFile<RegisteredData>(
+      ctx.path('data/places/registered.json'),
+      'This file is generated by the GitHub Action workflow. ' +
+        'To generate it locally, run the GitHub Action or create the file manually.'
+    );
+
+    return { rawHome, registeredData };
+  },
+  normalize({ rawHome, registeredData }, ctx) {
     // Normalize home fields
-    home = {
-      city: normalizeWhitespace(home.city),
-      region: normalizeWhitespace(home.region),
-      country: normalizeWhitespace(home.country),
+    const home: Home = {
+      city: normalizeWhitespace(rawHome.city),
+      region: normalizeWhitespace(rawHome.region),
+      country: normalizeWhitespace(rawHome.country),
     };
-  } catch (error) {
-    console.error(`Failed to read ${homePath}:`, error);
-    process.exit(1);
-  }
-
-  // Read registered states data
-  let registeredData: RegisteredData;
-  try {
-    const registeredContent = readFileSync(registeredPath, 'utf-8');
-    registeredData = JSON.parse(registeredContent) as RegisteredData;
-  } catch (error) {
-    console.error(`Failed to read ${registeredPath}:`, error);
-    console.error('This file is generated by the GitHub Action workflow.');
-    console.error('To generate it locally, run the GitHub Action or create the file manually.');
-    process.exit(1);
-  }
-
-  // Extract states array (handle different possible structures)
-  const states: RegisteredState[] = Array.isArray(registeredData.states)
-    ? registeredData.states
-    : Array.isArray(registeredData)
-    ? registeredData
-    : [];
-
-  if (states.length === 0) {
-    console.warn('Warning: No states found in registered.json');
-  }
-
-  // Normalize and dedupe places by state (region|country)
-  const seenKeys = new Set<string>();
-  const placesWithKeys: StatePlaceWithKey[] = [];
-
-  for (const state of states) {
-    if (!state.region || !state.country) {
-      console.warn('Skipping invalid state entry:', state);
-      continue;
-    }
 
-    const { normalized, key } = normalizeState(state);
+    // Extract states array (handle different possible structures)
+    const states: RegisteredState[] = Array.isArray(registeredData.states)
+      ? registeredData.states
+      : Array.isArray(registeredData)
+      ? registeredData
+      : [];
 
-    // If state already seen, skip (defensive deduplication)
-    if (seenKeys.has(key)) {
-      continue;
+    if (states.length === 0) {
+      ctx.log.warn('No states found in registered.json');
     }
 
-    seenKeys.add(key);
-    placesWithKeys.push({
-      ...normalized,
-      key,
-    });
-  }
-
-  // Sort places by country then region
-  const sortedPlaces = sortPlaces(placesWithKeys);
-
-  // Build output object
-  const output: PlacesOutput = {
-    home,
-    count: sortedPlaces.length,
-    places: sortedPlaces,
-  };
+    // Normalize and dedupe places by state (region|country)
+    const seenKeys = new Set<string>();
+    const placesWithKeys: StatePlaceWithKey[] = [];
 
-  // Ensure output directory exists
-  const outputDir = dirname(outputPath);
-  try {
-    mkdirSync(outputDir, { recursive: true });
-  } catch (error) {
-    // Directory might already exist, that's okay
-  }
+    for (const state of states) {
+      if (!state.region || !state.country) {
+        ctx.log.warn('Skipping invalid state entry', { state });
+        continue;
+      }
 
-  // Write output file with 2-space indentation and trailing newline
-  const outputJson = JSON.stringify(output, null, 2) + '\n';
-  writeFileSync(outputPath, outputJson, 'utf-8');
+      const { normalized, key } = normalizeState(state);
 
-  console.log(`Successfully generated ${outputPath}`);
-  console.log(JSON.stringify(output, null, 2));
-}
+      // If state already seen, skip (defensive deduplication)
+      if (seenKeys.has(key)) {
+        continue;
+      }
+
+      seenKeys.add(key);
+      placesWithKeys.push({
+        ...normalized,
+        key,
+      });
+    }
+
+    // Sort places by country then region
+    const sortedPlaces = sortPlaces(placesWithKeys);
+
+    // Build output object
+    const output: PlacesOutput = {
+      updatedAt: ctx.now.toISOString(),
+      home,
+      count: sortedPlaces.length,
+      places: sortedPlaces,
+    };
+
+    return [{ path: 'api/places.json', data: output, summary: `${output.count} places` }];
+  },
+});
 
-main();
+runSourceScript(import.meta.url, placesSource);
@@ -0,0 +1,201 @@
+import { defineSource, normalizeWhitespace, runSourceScript, schema, type Schema } from '../core/index.js';
+import type { RecentGame } from '../openxbl/build-openxbl.js';
+import {
+  durationMinutes,
+  fetchPlayedGames,
+  fetchTrophySummary,
+  fetchTrophyTitles,
+  psnAccessToken,
+  type PsnGameTitle,
+  type PsnTrophySummary,
+  type PsnTrophyTitle,
+  type TrophyCounts
+} from './psn-api.js';
+
+/*
+ * PlayStation Network profile: recently played PS4/PS5 games in the same
+ * RecentGame shape api/games.json uses, playtime per game, and trophies.
+ * The openxbl source merges this into api/games.json when GAMES_MERGE_PSN is
+ * "true".
+ */
+
+export type PsnGame = RecentGame & { platform: 'playstation' };
+
+export type PsnPlaytime = { titleId: string; minutesPlayed: number };
+
+export type TrophySummary = {
+  level: number;
+  /** Percent of the way to the next level. */
+  progress: number;
+  earned: TrophyCounts;
+};
+
+export type TrophyTitle = {
+  /** Trophy list id (NPWR…), not the game's title id. */
+  id: string;
+  name: string;
+  platform: string;
+  progress: number;
+  earned: TrophyCounts;
+  defined: TrophyCounts;
+  lastUpdated: string | null;
+};
+
+export type PsnOutput = {
+  updatedAt: string;
+  source: 'psn';
+  recentGames: PsnGame[];
+  /** Total minutes per title for the recent games; titles PSN reports no duration for are left out. */
+  playtime: PsnPlaytime[];
+  trophies: TrophySummary | null;
+  /** Trophy lists, most recently updated first. */
+  trophyTitles: TrophyTitle[];
+};
+
+const RECENT_LIMIT = 10;
+const TROPHY_TITLES_LIMIT = 10;
+
+const trophyCountsSchema: Schema<TrophyCounts> = schema.object({
+  bronze: schema.integer({ minimum: 0 }),
+  silver: schema.integer({ minimum: 0 }),
+  gold: schema.integer({ minimum: 0 }),
+  platinum: schema.integer({ minimum: 0 })
+});
+
+export const psnGameSchema: Schema<PsnGame> = schema.object({
+  name: schema.string({ minLength: 1 }),
+  titleId: schema.string({ minLength: 1 }),
+  lastPlayed: schema.nullable(schema.string({ format: 'date-time' })),
+  platform: schema.literal('playstation'),
+  image: schema.nullable(schema.string())
+});
+
+export const trophySummarySchema: Schema<TrophySummary> = schema.object({
+  level: schema.integer({ minimum: 0 }),
+  progress: schema.integer({ minimum: 0 }),
+  earned: trophyCountsSchema
+});
+
+export const psnOutputSchema: Schema<PsnOutput> = schema.object({
+  updatedAt: schema.string({ format: 'date-time' }),
+  source: schema.literal('psn'),
+  recentGames: schema.array(psnGameSchema),
+  playtime: schema.array(
+    schema.object({
+      titleId: schema.string({ minLength: 1 }),
+      minutesPlayed: schema.integer({ minimum: 0 })
+    })
+  ),
+  trophies: schema.nullable(trophySummarySchema),
+  trophyTitles: schema.array(
+    schema.object({
+      id: schema.string({ minLength: 1 }),
+      name: schema.string({ minLength: 1 }),
+      platform: schema.string(),
+      progress: schema.integer({ minimum: 0 }),
+      earned: trophyCountsSchema,
+      defined: trophyCountsSchema,
+      lastUpdated: schema.nullable(schema.string({ format: 'date-time' }))
+    })
+  )
+});
+
+type RawPsn = {
+  games: PsnGameTitle[];
+  summary: PsnTrophySummary;
+  trophyTitles: PsnTrophyTitle[];
+};
+
+function count(v: unknown): number {
+  const n = typeof v === 'string' ? Number(v) : v;
+  return typeof n === 'number' && Number.isFinite(n) && n > 0 ? Math.round(n) : 0;
+}
+
+function counts(c: Partial<TrophyCounts> | undefined): TrophyCounts {
+  return { bronze: count(c?.bronze), silver: count(c?.silver), gold: count(c?.gold), platinum: count(c?.platinum) };
+}
+
+function isoOrNull(v: string | undefined): string | null {
+  const d = v ? new Date(v) : null;
+  return d && !Number.isNaN(d.getTime()) ? d.toISOString() : null;
+}
+
+export function normalizePsnGame(t: PsnGameTitle): PsnGame {
+  return {
+    name: normalizeWhitespace(t.localizedName || t.name || ''),
+    titleId: normalizeWhitespace(t.titleId || ''),
+    lastPlayed: isoOrNull(t.lastPlayedDateTime),
+    platform: 'playstation',
+    image: normalizeWhitespace(t.localizedImageUrl || t.imageUrl || '') || null
+  };
+}
+
+function toTrophyTitle(t: PsnTrophyTitle): TrophyTitle | null {
+  const id = normalizeWhitespace(t.npCommunicationId || '');
+  const name = normalizeWhitespace(t.trophyTitleName || '');
+  if (!id || !name) return null;
+  return {
+    id,
+    name,
+    platform: normalizeWhitespace(t.trophyTitlePlatform || ''),
+    progress: count(t.progress),
+    earned: counts(t.earnedTrophies),
+    defined: counts(t.definedTrophies),
+    lastUpdated: isoOrNull(t.lastUpdatedDateTime)
+  };
+}
+
+export const psnSource = defineSource({
+  name: 'psn',
+  description: 'PlayStation Network recently played games, playtime and trophies',
+  outputs: [{ path: 'api/psn.json', schema: psnOutputSchema, refreshEvery: '1d' }],
+  async fetch(ctx): Promise<RawPsn> {
+    const token = await psnAccessToken(ctx.env('PSN_NPSSO'));
+    return {
+      games: await fetchPlayedGames(token, RECENT_LIMIT),
+      summary: await fetchTrophySummary(token),
+      trophyTitles: await fetchTrophyTitles(token, TROPHY_TITLES_LIMIT)
+    };
+  },
+  normalize(raw, ctx) {
+    const played = raw.games.filter((t) => t && typeof t === 'object');
+    const recentGames = played
+      .map(normalizePsnGame)
+      .filter((g) => g.name && g.titleId)
+      .sort((a, b) => (b.lastPlayed ?? '').localeCompare(a.lastPlayed ?? ''))
+      .slice(0, RECENT_LIMIT);
+    const recentIds = new Set(recentGames.map((g) => g.titleId));
+    const playtime: PsnPlaytime[] = [];
+    for (const t of played) {
+      const titleId = normalizeWhitespace(t.titleId || '');
+      const minutesPlayed = durationMinutes(t.playDuration);
+      if (recentIds.has(titleId) && minutesPlayed !== null) playtime.push({ titleId, minutesPlayed });
+    }
+
+    const level = count(raw.summary.trophyLevel);
+    const trophies: TrophySummary | null =
+      level > 0 ? { level, progress: count(raw.summary.progress), earned: counts(raw.summary.earnedTrophies) } : null;
+    const trophyTitles = raw.trophyTitles
+      .map(toTrophyTitle)
+      .filter((t): t is TrophyTitle => t !== null)
+      .sort((a, b) => (b.lastUpdated ?? '').localeCompare(a.lastUpdated ?? ''));
+
+    const output: PsnOutput = {
+      updatedAt: ctx.now.toISOString(),
+      source: 'psn',
+      recentGames,
+      playtime,
+      trophies,
+      trophyTitles
+    };
+    return [
+      {
+        path: 'api/psn.json',
+        data: output,
+        summary: `${recentGames.length} recent games, trophy level ${trophies?.level ?? '-'}`
+      }
+    ];
+  }
+});
+
+runSourceScript(import.meta.url, psnSource);
@@ -0,0 +1,129 @@
+import { fetchJson, safeSnippet, upstreamError } from '../core/index.js';
+
+/*
+ * PlayStation Network API, the way the PlayStation App talks to it. PSN has
+ * no refresh-token flow for third parties; instead the NPSSO cookie from a
+ * browser session (https://ca.account.sony.com/api/v1/ssocookie while signed
+ * in) is traded for an authorization code and then an access token. NPSSO
+ * lasts about two months.
+ */
+
+const AUTH_BASE = 'https://ca.account.sony.com/api/authz/v3/oauth';
+const API_BASE = 'https://m.np.playstation.com/api';
+/** The PlayStation App's public client; these are not secrets. */
+const CLIENT_ID = '09515159-7237-4370-9b40-3806e67c0891';
+const CLIENT_BASIC = 'MDk1MTUxNTktNzIzNy00MzcwLTliNDAtMzgwNmU2N2MwODkxOnVjUGprYTV0bnRCMktxc1A=';
+const REDIRECT_URI = 'com.scee.psxandroid.scecompcall://redirect';
+const NPSSO_HINT = 'PSN_NPSSO has probably expired; sign in at playstation.com and copy a fresh one from https://ca.account.sony.com/api/v1/ssocookie.';
+
+export type TrophyCounts = { bronze: number; silver: number; gold: number; platinum: number };
+
+export type PsnGameTitle = {
+  titleId?: string;
+  name?: string;
+  localizedName?: string;
+  imageUrl?: string;
+  localizedImageUrl?: string;
+  category?: string;
+  playCount?: number;
+  lastPlayedDateTime?: string;
+  /** ISO 8601 duration, e.g. "PT12H3M4S". */
+  playDuration?: string;
+};
+
+export type PsnTrophyTitle = {
+  npCommunicationId?: string;
+  trophyTitleName?: string;
+  trophyTitleIconUrl?: string;
+  trophyTitlePlatform?: string;
+  progress?: number;
+  earnedTrophies?: Partial<TrophyCounts>;
+  definedTrophies?: Partial<TrophyCounts>;
+  lastUpdatedDateTime?: string;
+};
+
+export type PsnTrophySummary = {
+  trophyLevel?: number | string;
+  progress?: number;
+  earnedTrophies?: Partial<TrophyCounts>;
+};
+
+/** NPSSO → authorization code → access token. */
+export async function psnAccessToken(npsso: string): Promise<string> {
+  const authorize = new URL(`${AUTH_BASE}/authorize`);
+  authorize.search = new URLSearchParams({
+    access_type: 'offline',
+    client_id: CLIENT_ID,
+    redirect_uri: REDIRECT_URI,
+    response_type: 'code',
+    scope: 'psn:mobile.v2.core psn:clientapp'
+  }).toString();
+
+  let location: string | null;
+  try {
+    // The code only appears in the redirect, so don't follow it.
+    const res = await fetch(authorize.toString(), { headers: { Cookie: `npsso=${npsso}` }, redirect: 'manual' });
+    location = res.headers.get('location');
+  } catch (err) {
+    throw upstreamError(`PSN authorize request failed: ${err instanceof Error ? err.message : String(err)}`, { hint: NPSSO_HINT });
+  }
+  const code = location ? new URL(location).searchParams.get('code') : null;
+  if (!code) {
+    throw upstreamError('PSN did not return an authorization code.', {
+      hint: NPSSO_HINT,
+      details: { location: location ? safeSnippet(location) : null }
+    });
+  }
+
+  const token = await fetchJson<{ access_token?: string }>(
+    'PSN token',
+    `${AUTH_BASE}/token`,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${CLIENT_BASIC}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({ code, redirect_uri: REDIRECT_URI, grant_type: 'authorization_code', token_format: 'jwt' }).toString()
+    },
+    NPSSO_HINT
+  );
+  if (!token.access_token) {
+    throw upstreamError('PSN token response had no access_token.', { hint: NPSSO_HINT });
+  }
+  return token.access_token;
+}
+
+async function psnGet<T>(token: string, path: string, params: Record<string, string> = {}): Promise<T> {
+  const url = new URL(`${API_BASE}${path}`);
+  for (const [k, v] of Object.entries(params)) url.searchParams.set(k, v);
+  return fetchJson<T>('PSN', url.toString(), { headers: { Authorization: `Bearer ${token}` } });
+}
+
+/** Played PS4/PS5 games, most recently played first. */
+export async function fetchPlayedGames(token: string, limit: number): Promise<PsnGameTitle[]> {
+  const data = await psnGet<{ titles?: PsnGameTitle[] }>(token, '/gamelist/v2/users/me/titles', {
+    categories: 'ps4_game,ps5_native_game',
+    limit: String(limit),
+    offset: '0'
+  });
+  return data.titles ?? [];
+}
+
+/** Trophy lists, most recently updated first. */
+export async function fetchTrophyTitles(token: string, limit: number): Promise<PsnTrophyTitle[]> {
+  const data = await psnGet<{ trophyTitles?: PsnTrophyTitle[] }>(token, '/trophy/v1/users/me/trophyTitles', { limit: String(limit) });
+  return data.trophyTitles ?? [];
+}
+
+export async function fetchTrophySummary(token: string): Promise<PsnTrophySummary> {
+  return psnGet<PsnTrophySummary>(token, '/trophy/v1/users/me/trophySummary');
+}
+
+/** Minutes in an ISO 8601 duration such as "PT12H3M4S" or "P1DT2H"; null if it doesn't parse. */
+export function durationMinutes(duration: string | undefined): number | null {
+  const m = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/.exec(duration ?? '');
+  if (!m || duration === 'P' || duration === 'PT') return null;
+  const [, d, h, min, s] = m;
+  return Math.round(Number(d ?? 0) * 1440 + Number(h ?? 0) * 60 + Number(min ?? 0) + Number(s ?? 0) / 60);
+}
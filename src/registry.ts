@@ -0,0 +1,100 @@
+import { DEFAULT_HISTORY_POLICY, type DurationText, type HistoryPolicy, type SchemaNode, type SourceModule } from './core/index.js';
+import { contributionsSource } from './github/build-contributions.js';
+import { healthSource } from './health/import-health.js';
+import { musicSource } from './music/build-music.js';
+import { spotifySource } from './music/build-spotify.js';
+import { scrobblesSource } from './music/ingest-scrobbles.js';
+import { openxblSource } from './openxbl/build-openxbl.js';
+import { placesSource } from './places/build-places-from-db.js';
+import { psnSource } from './psn/build-psn.js';
+import { locationOutputSchema, stepsOutputSchema } from './shortcuts/endpoints.js';
+import { sleepSource } from './sleep/build-sleep.js';
+import { timelineSource } from './timeline/build-timeline.js';
+import { todoistSource } from './todoist/build-todoist.js';
+import { completedTasksSource } from './todoist/ingest-completed.js';
+import { whatpulseWeeklySource } from './whatpulse/build-weekly.js';
+import { whatpulseSource } from './whatpulse/build-whatpulse.js';
+import { whatpulseRawSource } from './whatpulse/fetch-raw.js';
+import { xboxSource } from './xbox/build-xbox.js';
+
+/**
+ * Every source the CLI knows about. Order matters for `run --all`: sources
+ * that read another source's output (spotify → music, psn → openxbl, health → sleep, whatpulse → whatpulse-weekly) come after
+ * it, and timeline, which reads everything, comes last.
+ */
+export const sources: SourceModule<unknown>[] = [
+  contributionsSource,
+  spotifySource,
+  musicSource,
+  scrobblesSource,
+  psnSource,
+  openxblSource,
+  placesSource,
+  healthSource,
+  sleepSource,
+  todoistSource,
+  completedTasksSource,
+  whatpulseRawSource,
+  whatpulseSource,
+  whatpulseWeeklySource,
+  xboxSource,
+  timelineSource
+];
+
+export function findSource(name: string): SourceModule<unknown> | undefined {
+  return sources.find((s) => s.name === name);
+}
+
+/** A published api/*.json file and the schema it must satisfy. */
+export type EndpointSchema = {
+  /** Endpoint name as used in the index, e.g. "music". */
+  name: string;
+  /** Project-relative path, e.g. "api/music.json". */
+  path: string;
+  description: string;
+  schema: SchemaNode;
+  /** Expected refresh interval, or null when the endpoint has no schedule. */
+  refreshEvery: DurationText | null;
+  history: HistoryPolicy;
+};
+
+/**
+ * Every published endpoint with a schema, sorted by name. Includes the
+ * Shortcut-fed files that have no source.
+ */
+export function endpointSchemas(): EndpointSchema[] {
+  const endpoints: EndpointSchema[] = [
+    {
+      name: 'location',
+      path: 'api/location.json',
+      description: 'Current location (iOS Shortcut)',
+      schema: locationOutputSchema,
+      refreshEvery: '1d',
+      history: DEFAULT_HISTORY_POLICY
+    },
+    {
+      name: 'steps',
+      path: 'api/steps.json',
+      description: "Today's step count (iOS Shortcut)",
+      schema: stepsOutputSchema,
+      refreshEvery: '1d',
+      history: DEFAULT_HISTORY_POLICY
+    }
+  ];
+  for (const source of sources) {
+    for (const output of source.outputs) {
+      // Skips the Shortcut endpoints above when a source also writes them (health → steps).
+      if (!output.schema || !output.path.startsWith('api/') || endpoints.some((e) => e.path === output.path)) continue;
+      const name = output.path.slice('api/'.length).replace(/\.json$/, '');
+      endpoints.push({
+        name,
+        path: output.path,
+        description: source.description,
+        schema: output.schema,
+        refreshEvery: output.refreshEvery ?? null,
+        history: output.history ?? DEFAULT_HISTORY_POLICY
+      });
+    }
+  }
+  return endpoints.sort((a, b) => a.name.localeCompare(b.name));
+}
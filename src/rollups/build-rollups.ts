@@ -0,0 +1,336 @@
+import { readdir } from 'node:fs/promises';
+import {
+  addDays,
+  findUpdatedAt,
+  resolveTimeZone,
+  loadEndpointVersions,
+  localDate,
+  projectPath,
+  readJsonFileOr,
+  runScript,
+  schema,
+  writeJsonFile,
+  type Logger,
+  type Schema
+} from '../core/index.js';
+import type { ContributionsOutput } from '../github/build-contributions.js';
+import type { HealthDay } from '../health/import-health.js';
+import { sleepOutputSchema, type SleepOutput } from '../sleep/build-sleep.js';
+import type { SleepNight } from '../sleep/nights.js';
+import { stepsOutputSchema, type StepsOutput } from '../shortcuts/endpoints.js';
+import { todoistOutputSchema, type TodoistOutput } from '../todoist/build-todoist.js';
+import type { Snapshot } from '../whatpulse/build-weekly.js';
+
+/*
+ * Per-month and per-year aggregates of every numeric metric, for dashboards
+ * that want one month without downloading the whole history.
+ *
+ * Daily values come from api/history snapshots (steps, sleep, todoist), the
+ * append-only contributions weeks[] and the WhatPulse weekly snapshots. Whole
+ * days from an Apple Health import (raw-data/health-days.json) and the stored
+ * sleep nights override the snapshots, which only saw part of a day. Month
+ * files keep the days they already hold, so values survive history compaction.
+ */
+
+export const METRICS = ['steps', 'sleepHours', 'contributions', 'keys', 'clicks', 'tasksCompleted'] as const;
+export type Metric = (typeof METRICS)[number];
+
+/**
+ * One local day. null means no reading for that day. keys/clicks are the
+ * counts accumulated since the previous WhatPulse snapshot, credited to the
+ * day they were measured. tasksCompleted is that day's Todoist completions;
+ * archived versions without `days` only had a week-to-date total and are
+ * skipped, leaving it null.
+ */
+export type DayMetrics = { date: string } & Record<Metric, number | null>;
+
+export type MetricSummary = {
+  total: number;
+  /** Days with a reading. */
+  days: number;
+  mean: number | null;
+  min: number | null;
+  max: number | null;
+};
+
+export type RollupMonth = {
+  updatedAt: string;
+  timezone: string;
+  /** "2026-03" */
+  period: string;
+  metrics: Record<Metric, MetricSummary>;
+  days: DayMetrics[];
+};
+
+export type RollupYear = {
+  updatedAt: string;
+  timezone: string;
+  /** "2026" */
+  period: string;
+  metrics: Record<Metric, MetricSummary>;
+  months: { period: string; path: string; metrics: Record<Metric, MetricSummary> }[];
+};
+
+export type RollupIndex = {
+  updatedAt: string;
+  years: { period: string; path: string; months: string[] }[];
+};
+
+const metricSummarySchema: Schema<MetricSummary> = schema.object({
+  total: schema.number({ minimum: 0 }),
+  days: schema.integer({ minimum: 0 }),
+  mean: schema.nullable(schema.number({ minimum: 0 })),
+  min: schema.nullable(schema.number({ minimum: 0 })),
+  max: schema.nullable(schema.number({ minimum: 0 }))
+});
+
+const metricsSchema: Schema<Record<Metric, MetricSummary>> = schema.object({
+  steps: metricSummarySchema,
+  sleepHours: metricSummarySchema,
+  contributions: metricSummarySchema,
+  keys: metricSummarySchema,
+  clicks: metricSummarySchema,
+  tasksCompleted: metricSummarySchema
+});
+
+const reading = schema.nullable(schema.number({ minimum: 0 }));
+
+export const rollupMonthSchema: Schema<RollupMonth> = schema.object({
+  updatedAt: schema.string({ format: 'date-time' }),
+  timezone: schema.string({ minLength: 1 }),
+  period: schema.string({ pattern: /^\d{4}-\d{2}$/ }),
+  metrics: metricsSchema,
+  days: schema.array(
+    schema.object({
+      date: schema.string({ format: 'date' }),
+      steps: reading,
+      sleepHours: reading,
+      contributions: reading,
+      keys: reading,
+      clicks: reading,
+      tasksCompleted: reading
+    })
+  )
+});
+
+export const rollupYearSchema: Schema<RollupYear> = schema.object({
+  updatedAt: schema.string({ format: 'date-time' }),
+  timezone: schema.string({ minLength: 1 }),
+  period: schema.string({ pattern: /^\d{4}$/ }),
+  metrics: metricsSchema,
+  months: schema.array(
+    schema.object({
+      period: schema.string({ pattern: /^\d{4}-\d{2}$/ }),
+      path: schema.string({ minLength: 1 }),
+      metrics: metricsSchema
+    })
+  )
+});
+
+export const rollupIndexSchema: Schema<RollupIndex> = schema.object({
+  updatedAt: schema.string({ format: 'date-time' }),
+  years: schema.array(
+    schema.object({
+      period: schema.string({ pattern: /^\d{4}$/ }),
+      path: schema.string({ minLength: 1 }),
+      months: schema.array(schema.string({ pattern: /^\d{4}-\d{2}$/ }))
+    })
+  )
+});
+
+const ROLLUPS_DIR = 'api/rollups';
+
+export function rollupMonthPath(period: string): string {
+  return `${ROLLUPS_DIR}/${period.slice(0, 4)}/${period.slice(5, 7)}.json`;
+}
+
+export function rollupYearPath(year: string): string {
+  return `${ROLLUPS_DIR}/${year}.json`;
+}
+
+type Samples = Map<string, Partial<Record<Metric, number>>>;
+
+function addSample(samples: Samples, date: string, metric: Metric, value: number): void {
+  const day = samples.get(date) ?? {};
+  day[metric] = value;
+  samples.set(date, day);
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+async function collectSamples(timeZone: string, log: Logger): Promise<Samples> {
+  const samples: Samples = new Map();
+  const dayOf = (data: unknown) => {
+    const at = findUpdatedAt(data, { timeZone });
+    return at ? localDate(new Date(at.iso), timeZone) : null;
+  };
+
+  // Later versions of the same day overwrite earlier ones: the last reading wins.
+  for (const steps of await loadEndpointVersions<StepsOutput>('steps', 'api/steps.json', stepsOutputSchema)) {
+    const date = dayOf(steps);
+    if (date) addSample(samples, date, 'steps', steps.stepsToday);
+  }
+
+  // A dated night counts toward the morning it ended; only undated (bare-duration) versions fall back to their updatedAt.
+  for (const sleep of await loadEndpointVersions<SleepOutput>('sleep', 'api/sleep.json', sleepOutputSchema)) {
+    const date = sleep.night ? addDays(sleep.night, 1) : dayOf(sleep);
+    if (date) addSample(samples, date, 'sleepHours', round2(sleep.sleepHours));
+  }
+
+  const healthDays = await readJsonFileOr<unknown>(projectPath('raw-data', 'health-days.json'), []);
+  for (const day of Array.isArray(healthDays) ? (healthDays as HealthDay[]) : []) {
+    if (day?.date && typeof day.steps === 'number') addSample(samples, day.date, 'steps', day.steps);
+  }
+
+  // Credited to the morning the night ended, like the dated sleep.json versions above.
+  const nights = await readJsonFileOr<unknown>(projectPath('raw-data', 'sleep-nights.json'), []);
+  for (const night of Array.isArray(nights) ? (nights as SleepNight[]) : []) {
+    if (!night?.night || typeof night.asleepMinutes !== 'number') continue;
+    addSample(samples, addDays(night.night, 1), 'sleepHours', round2(night.asleepMinutes / 60));
+  }
+
+  // Older versions only had a week-to-date total, which can't be split into days.
+  for (const todoist of await loadEndpointVersions<TodoistOutput>('todoist', 'api/todoist.json', todoistOutputSchema)) {
+    for (const day of todoist.days ?? []) addSample(samples, day.date, 'tasksCompleted', day.completed);
+  }
+
+  const contributions = await readJsonFileOr<ContributionsOutput | null>(projectPath('api', 'contributions.json'), null);
+  for (const week of contributions?.weeks ?? []) {
+    for (const day of week.days) addSample(samples, day.date, 'contributions', day.count);
+  }
+
+  const parsed = await readJsonFileOr<unknown>(projectPath('raw-data', 'whatpulse-weekly-snapshots.json'), []);
+  const snapshots = (Array.isArray(parsed) ? (parsed as Snapshot[]) : []).filter((s) => s?.capturedAt && s.counters);
+  const activity = new Map<string, { keys: number; clicks: number }>();
+  for (let i = 1; i < snapshots.length; i++) {
+    const prev = snapshots[i - 1].counters;
+    const current = snapshots[i].counters;
+    const date = localDate(new Date(snapshots[i].capturedAt), timeZone);
+    const day = activity.get(date) ?? { keys: 0, clicks: 0 };
+    // Unpulsed counters drop back to zero after a pulse; then everything counted is new.
+    day.keys += current.keys >= prev.keys ? current.keys - prev.keys : current.keys;
+    day.clicks += current.clicks >= prev.clicks ? current.clicks - prev.clicks : current.clicks;
+    activity.set(date, day);
+  }
+  for (const [date, day] of activity) {
+    addSample(samples, date, 'keys', day.keys);
+    addSample(samples, date, 'clicks', day.clicks);
+  }
+
+  log.debug('Collected daily samples', { days: samples.size });
+  return samples;
+}
+
+function summarize(values: number[]): MetricSummary {
+  if (values.length === 0) return { total: 0, days: 0, mean: null, min: null, max: null };
+  const total = values.reduce((a, b) => a + b, 0);
+  return {
+    total: round2(total),
+    days: values.length,
+    mean: round2(total / values.length),
+    min: Math.min(...values),
+    max: Math.max(...values)
+  };
+}
+
+function summarizeDays(days: DayMetrics[]): Record<Metric, MetricSummary> {
+  const out = {} as Record<Metric, MetricSummary>;
+  for (const metric of METRICS) {
+    out[metric] = summarize(days.map((d) => d[metric]).filter((v): v is number => v !== null));
+  }
+  return out;
+}
+
+function emptyDay(date: string): DayMetrics {
+  return { date, steps: null, sleepHours: null, contributions: null, keys: null, clicks: null, tasksCompleted: null };
+}
+
+async function existingMonths(): Promise<string[]> {
+  const months: string[] = [];
+  const years = await readdir(projectPath(ROLLUPS_DIR)).catch(() => [] as string[]);
+  for (const year of years.filter((y) => /^\d{4}$/.test(y))) {
+    for (const file of await readdir(projectPath(ROLLUPS_DIR, year))) {
+      const m = /^(\d{2})\.json$/.exec(file);
+      if (m) months.push(`${year}-${m[1]}`);
+    }
+  }
+  return months;
+}
+
+/** Every day held in the published month rollups, oldest first. */
+export async function loadDailyMetrics(): Promise<DayMetrics[]> {
+  const days: DayMetrics[] = [];
+  for (const period of (await existingMonths()).sort()) {
+    const month = await readJsonFileOr<RollupMonth | null>(projectPath(rollupMonthPath(period)), null);
+    days.push(...(month?.days ?? []));
+  }
+  return days;
+}
+
+/**
+ * Write api/rollups/<year>/<month>.json for every month with data,
+ * api/rollups/<year>.json per year, and api/rollups/index.json. Months whose
+ * days are unchanged are left alone so re-runs don't churn commits.
+ */
+export async function buildRollups(log: Logger): Promise<void> {
+  const { timeZone } = await resolveTimeZone();
+  const updatedAt = new Date().toISOString();
+  const samples = await collectSamples(timeZone, log);
+
+  const periods = new Set([...(await existingMonths()), ...[...samples.keys()].map((d) => d.slice(0, 7))]);
+  const months = new Map<string, RollupMonth>();
+  let changed = 0;
+
+  for (const period of [...periods].sort()) {
+    const path = rollupMonthPath(period);
+    const existing = await readJsonFileOr<RollupMonth | null>(projectPath(path), null);
+    const days = new Map((existing?.days ?? []).map((d) => [d.date, { ...d }]));
+    for (const [date, values] of samples) {
+      if (!date.startsWith(`${period}-`)) continue;
+      days.set(date, { ...(days.get(date) ?? emptyDay(date)), ...values });
+    }
+    const sorted = [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+
+    if (existing && JSON.stringify(existing.days) === JSON.stringify(sorted)) {
+      months.set(period, existing);
+      continue;
+    }
+    const month: RollupMonth = { updatedAt, timezone: timeZone, period, metrics: summarizeDays(sorted), days: sorted };
+    await writeJsonFile(projectPath(path), month);
+    months.set(period, month);
+    changed++;
+  }
+
+  const byYear = new Map<string, RollupMonth[]>();
+  for (const month of months.values()) {
+    const year = month.period.slice(0, 4);
+    byYear.set(year, [...(byYear.get(year) ?? []), month]);
+  }
+
+  const index: RollupIndex = { updatedAt, years: [] };
+  for (const [year, yearMonths] of [...byYear].sort(([a], [b]) => a.localeCompare(b))) {
+    const yearFile: RollupYear = {
+      updatedAt,
+      timezone: timeZone,
+      period: year,
+      metrics: summarizeDays(yearMonths.flatMap((m) => m.days)),
+      months: yearMonths.map((m) => ({ period: m.period, path: `/${rollupMonthPath(m.period)}`, metrics: m.metrics }))
+    };
+    const existing = await readJsonFileOr<RollupYear | null>(projectPath(rollupYearPath(year)), null);
+    if (!existing || JSON.stringify({ ...existing, updatedAt }) !== JSON.stringify(yearFile)) {
+      await writeJsonFile(projectPath(rollupYearPath(year)), yearFile);
+    }
+    index.years.push({ period: year, path: `/${rollupYearPath(year)}`, months: yearMonths.map((m) => m.period) });
+  }
+
+  const existingIndex = await readJsonFileOr<RollupIndex | null>(projectPath(ROLLUPS_DIR, 'index.json'), null);
+  if (!existingIndex || JSON.stringify({ ...existingIndex, updatedAt }) !== JSON.stringify(index)) {
+    await writeJsonFile(projectPath(ROLLUPS_DIR, 'index.json'), index);
+  }
+
+  log.info(`Rollups: ${months.size} months across ${byYear.size} years`, { changed });
+}
+
+runScript(import.meta.url, 'rollups', buildRollups);
@@ -0,0 +1,156 @@
+import { readdir, rm } from 'node:fs/promises';
+import {
+  DEFAULT_HISTORY_POLICY,
+  historyIndexSchema,
+  projectPath,
+  runScript,
+  toJsonSchema,
+  writeJsonFile,
+  type JsonSchema,
+  type Logger
+} from '../core/index.js';
+import { apiIndexSchema, BASE_URL, schemaPath } from '../index/build-api-index.js';
+import { correlationsOutputSchema } from '../insights/build-correlations.js';
+import { rollupIndexSchema, rollupMonthSchema, rollupYearSchema } from '../rollups/build-rollups.js';
+import { endpointSchemas, type EndpointSchema } from '../registry.js';
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/** "whatpulse-weekly" → "getWhatpulseWeekly" */
+function operationId(name: string): string {
+  return 'get' + name.split(/[^a-z0-9]+/i).map((p) => p.charAt(0).toUpperCase() + p.slice(1)).join('');
+}
+
+/** Path parameters for templated paths like api/rollups/{year}/{month}.json. */
+function pathParameters(path: string) {
+  return [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string' }
+  }));
+}
+
+function jsonResponse(ref: string, description: string, opId: string = operationId(ref), path: string = '') {
+  const parameters = pathParameters(path);
+  return {
+    get: {
+      operationId: opId,
+      summary: description,
+      ...(parameters.length > 0 ? { parameters } : {}),
+      responses: {
+        '200': {
+          description: 'OK',
+          content: { 'application/json': { schema: { $ref: `#/components/schemas/${ref}` } } }
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Publish api/schemas/<name>.schema.json for every endpoint (plus the index)
+ * and an OpenAPI 3.1 description at api/openapi.json. Both are generated from
+ * the same schemas the builders and index validate with.
+ */
+export async function buildSchemas(log: Logger): Promise<void> {
+  const index: EndpointSchema = {
+    name: 'index',
+    path: 'api/index.json',
+    description: 'API index: every endpoint with its health, last update and schema',
+    schema: apiIndexSchema,
+    refreshEvery: null,
+    history: DEFAULT_HISTORY_POLICY
+  };
+  const historyIndex: EndpointSchema = {
+    name: 'history-index',
+    path: 'api/history/{name}/index.json',
+    description: 'Archived snapshots of one endpoint (daily, compacted to monthly)',
+    schema: historyIndexSchema,
+    refreshEvery: null,
+    history: DEFAULT_HISTORY_POLICY
+  };
+  const rollups: EndpointSchema[] = [
+    {
+      name: 'rollup-index',
+      path: 'api/rollups/index.json',
+      description: 'Years and months that have metric rollups',
+      schema: rollupIndexSchema,
+      refreshEvery: null,
+      history: DEFAULT_HISTORY_POLICY
+    },
+    {
+      name: 'rollup-year',
+      path: 'api/rollups/{year}.json',
+      description: 'Per-year aggregates of every numeric metric, with each month\'s summary',
+      schema: rollupYearSchema,
+      refreshEvery: null,
+      history: DEFAULT_HISTORY_POLICY
+    },
+    {
+      name: 'rollup-month',
+      path: 'api/rollups/{year}/{month}.json',
+      description: 'Per-month aggregates of every numeric metric, with daily values',
+      schema: rollupMonthSchema,
+      refreshEvery: null,
+      history: DEFAULT_HISTORY_POLICY
+    }
+  ];
+  const correlations: EndpointSchema = {
+    name: 'correlations',
+    path: 'api/insights/correlations.json',
+    description: 'Pearson/Spearman correlations (same-day and lagged) between daily metrics',
+    schema: correlationsOutputSchema,
+    refreshEvery: null,
+    history: DEFAULT_HISTORY_POLICY
+  };
+  const endpoints = [...endpointSchemas(), index, historyIndex, ...rollups, correlations];
+
+  const components: Record<string, JsonSchema> = {};
+  const written = new Set<string>();
+  for (const e of endpoints) {
+    const body = toJsonSchema(e.schema);
+    components[e.name] = { title: e.name, description: e.description, ...body };
+
+    const file = schemaPath(e.name);
+    await writeJsonFile(projectPath(file), {
+      $schema: JSON_SCHEMA_DIALECT,
+      $id: `${BASE_URL}/${file}`,
+      title: e.name,
+      description: e.description,
+      ...body
+    });
+    written.add(file.slice('api/schemas/'.length));
+  }
+
+  // Drop schemas for endpoints that no longer exist.
+  for (const f of await readdir(projectPath('api', 'schemas'))) {
+    if (!written.has(f)) {
+      await rm(projectPath('api', 'schemas', f));
+      log.info(`Removed stale api/schemas/${f}`);
+    }
+  }
+
+  const paths: Record<string, unknown> = { '/api.json': jsonResponse('index', index.description, 'getApi') };
+  for (const e of endpoints) {
+    paths[`/${e.path}`] = jsonResponse(e.name, e.description, operationId(e.name), e.path);
+  }
+
+  const openapi = {
+    openapi: '3.1.0',
+    jsonSchemaDialect: JSON_SCHEMA_DIALECT,
+    info: {
+      title: 'kochu-apis',
+      version: '1.0.0',
+      description: 'Personal API: static JSON files regenerated by GitHub Actions and iOS Shortcuts.'
+    },
+    servers: [{ url: BASE_URL }],
+    paths,
+    components: { schemas: components }
+  };
+  await writeJsonFile(projectPath('api', 'openapi.json'), openapi);
+
+  log.info(`Wrote ${endpoints.length} schemas to api/schemas/ and api/openapi.json`);
+}
+
+runScript(import.meta.url, 'api-schemas', buildSchemas);
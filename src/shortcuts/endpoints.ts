@@ -0,0 +1,48 @@
+import { schema, type Schema } from '../core/index.js';
+
+/*
+ * Endpoints written directly by iOS Shortcuts (no builder in this repo).
+ * Described here so the index can validate them like every other endpoint.
+ */
+
+/** api/steps.json — today's step count from Apple Health. */
+export type StepsOutput = {
+  updatedAt: string;
+  /** Shortcut-formatted local time, e.g. "Apr 16, 2026 at 11:15 PM". */
+  date: string;
+  stepsToday: number;
+  reached_10k: boolean;
+};
+
+export const stepsOutputSchema: Schema<StepsOutput> = schema.object({
+  updatedAt: schema.string({ format: 'date-time' }),
+  date: schema.string({ minLength: 1 }),
+  stepsToday: schema.integer({ minimum: 0 }),
+  reached_10k: schema.boolean()
+});
+
+/** api/location.json — current reverse-geocoded location. */
+export type LocationOutput = {
+  /** Shortcut-formatted local time, e.g. "Apr 17, 2026 at 7:00 AM". */
+  updatedAt: string;
+  country: string;
+  region: string;
+  city: string;
+  /** Despite the name, the Shortcut writes the current local ISO time here. */
+  timezone: string;
+  countryCode: string;
+  /** Optional; when present the calendar derives the time zone from them. */
+  latitude?: number;
+  longitude?: number;
+};
+
+export const locationOutputSchema: Schema<LocationOutput> = schema.object({
+  updatedAt: schema.string({ minLength: 1 }),
+  country: schema.string({ minLength: 1 }),
+  region: schema.string({ minLength: 1 }),
+  city: schema.string({ minLength: 1 }),
+  timezone: schema.string(),
+  countryCode: schema.string({ pattern: /^[a-z]{2}$/ }),
+  latitude: schema.optional(schema.number()),
+  longitude: schema.optional(schema.number())
+});
@@ -1,9 +1,60 @@
-import { mkdir, readFile, writeFile } from 'node:fs/promises';
-import { dirname, join } from 'node:path';
-import { fileURLToPath } from 'node:url';
+import { defineSource, pad2, readJsonFileOr, readTextFile, resolveTimeZone, runSourceScript, schema, type Schema } from '../core/index.js';
+import {
+  bedtimeConsistencySchema,
+  DEFAULT_TARGET_HOURS,
+  mergeNights,
+  sleepAveragesSchema,
+  sleepDebtSchema,
+  sleepTrends,
+  socialJetlagSchema,
+  type SleepTrends
+} from './history.js';
+import { asleepSeconds, groupNights, parseSampleLine, sleepNightSchema, summarizeNight, type SleepNight, type SleepSample } from './nights.js';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+export type SleepOutput = Partial<SleepTrends> & {
+  updatedAt: string;
+  /** The night the totals below describe; absent for bare-duration input, which has no dates. */
+  night?: string | null;
+  segments: number;
+  sleepSeconds: number;
+  sleepMinutes: number;
+  sleepHours: number;
+  detailed: {
+    hours: number;
+    minutes: number;
+    seconds: number;
+    hhmm: string;
+    hhmmss: string;
+  };
+  /** The last NIGHTS_PUBLISHED nights from the history, oldest first. */
+  nights?: SleepNight[];
+};
+
+export const sleepOutputSchema: Schema<SleepOutput> = schema.object({
+  updatedAt: schema.string({ format: 'date-time' }),
+  // 0 when sleep-raw is empty and there's no stored night to report.
+  segments: schema.integer({ minimum: 0 }),
+  sleepSeconds: schema.integer({ minimum: 0 }),
+  sleepMinutes: schema.integer({ minimum: 0 }),
+  sleepHours: schema.number({ minimum: 0 }),
+  detailed: schema.object({
+    hours: schema.integer({ minimum: 0 }),
+    minutes: schema.integer({ minimum: 0 }),
+    seconds: schema.integer({ minimum: 0 }),
+    hhmm: schema.string({ pattern: /^\d+:\d{2}$/ }),
+    hhmmss: schema.string({ pattern: /^\d+:\d{2}:\d{2}$/ })
+  }),
+  // Optional so archived versions from before nights were parsed still validate.
+  night: schema.optional(schema.nullable(schema.string({ format: 'date' }))),
+  nights: schema.optional(schema.array(sleepNightSchema)),
+  lastNight: schema.optional(schema.nullable(sleepNightSchema)),
+  averages: schema.optional(sleepAveragesSchema),
+  sleepDebt: schema.optional(schema.nullable(sleepDebtSchema)),
+  bedtimeConsistency: schema.optional(schema.nullable(bedtimeConsistencySchema)),
+  socialJetlag: schema.optional(schema.nullable(socialJetlagSchema))
+});
+
+const NIGHTS_PUBLISHED = 30;
 
 /**
  * Parse a single duration line into seconds.
@@ -38,77 +89,112 @@ function parseDurationLine(line: string): number | null {
   return null;
 }
 
-function pad2(n: number): string {
-  return n.toString().padStart(2, '0');
-}
+const BARE_DURATION = /^\d+(:\d+){0,2}$/;
 
-async function main() {
-  const projectRoot = join(__dirname, '../..');
-  const rawPath = join(projectRoot, 'raw-data', 'sleep-raw');
-
-  let raw: string;
-  try {
-    raw = await readFile(rawPath, 'utf-8');
-  } catch (err) {
-    const msg = err instanceof Error ? err.message : String(err);
-    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
-      console.error('raw-data/sleep-raw is missing. Create the file and add one duration per line.');
-    } else {
-      console.error('Failed to read raw-data/sleep-raw:', msg);
+export const sleepSource = defineSource({
+  name: 'sleep',
+  description: 'Sleep per night with stages, plus averages, sleep debt and consistency from the accumulated nights (iOS Shortcut)',
+  outputs: [
+    { path: 'raw-data/sleep-nights.json' },
+    { path: 'api/sleep.json', schema: sleepOutputSchema, refreshEvery: '1d' }
+  ],
+  async fetch(ctx) {
+    const text = await readTextFile(
+      ctx.path('raw-data', 'sleep-raw'),
+      'Create the file and add one sleep sample (start, end, stage) or duration per line.'
+    );
+    const stored = await readJsonFileOr<unknown>(ctx.path('raw-data', 'sleep-nights.json'), []);
+    const target = Number(ctx.optionalEnv('SLEEP_TARGET_HOURS'));
+    return {
+      text,
+      history: Array.isArray(stored) ? (stored as SleepNight[]) : [],
+      targetHours: Number.isFinite(target) && target > 0 ? target : DEFAULT_TARGET_HOURS,
+      timeZone: (await resolveTimeZone()).timeZone
+    };
+  },
+  normalize({ text: raw, history, targetHours, timeZone }, ctx) {
+    const lines = raw
+      .split(/\r?\n/)
+      .map((l) => l.trim())
+      .filter((l) => l.length > 0);
+
+    // Lines with timestamps are samples; bare durations are the older format and are summed undated.
+    const durationLines = lines.filter((l) => BARE_DURATION.test(l));
+    const samples: SleepSample[] = [];
+    for (const line of lines) {
+      if (BARE_DURATION.test(line)) continue;
+      const sample = parseSampleLine(line, timeZone);
+      if (sample) samples.push(sample);
+      else ctx.log.warn('Unparseable sleep line (ignored)', { line });
     }
-    process.exit(1);
-  }
 
-  const lines = raw
-    .split(/\r?\n/)
-    .map((l) => l.trim())
-    .filter((l) => l.length > 0);
-
-  let totalSeconds = 0;
-  for (const line of lines) {
-    const sec = parseDurationLine(line);
-    if (sec === null) {
-      console.warn('Unparseable duration line (ignored):', JSON.stringify(line));
-      continue;
+    const nights = groupNights(samples, timeZone);
+    const latest = nights[nights.length - 1];
+    if (latest && durationLines.length > 0) {
+      ctx.log.warn('Ignoring bare duration lines next to timestamped samples', { lines: durationLines.length });
     }
-    totalSeconds += sec;
-  }
 
-  const segments = lines.length;
-
-  const sleepMinutes = Math.round(totalSeconds / 60);
-  const sleepHours = Math.round((totalSeconds / 3600) * 100) / 100;
-
-  const hours = Math.floor(totalSeconds / 3600);
-  const remainder = totalSeconds % 3600;
-  const minutes = Math.floor(remainder / 60);
-  const seconds = remainder % 60;
-
-  const hhmm = `${hours}:${pad2(minutes)}`;
-  const hhmmss = `${hours}:${pad2(minutes)}:${pad2(seconds)}`;
-
-  const output = {
-    updatedAt: new Date().toISOString(),
-    segments,
-    sleepSeconds: totalSeconds,
-    sleepMinutes,
-    sleepHours,
-    detailed: {
-      hours,
-      minutes,
-      seconds,
-      hhmm,
-      hhmmss
+    // With nothing new from the Shortcut, e.g. after an Apple Health import, report the latest stored night.
+    const stored = !latest && durationLines.length === 0 ? history[history.length - 1] : undefined;
+
+    let totalSeconds = 0;
+    if (latest) {
+      totalSeconds = asleepSeconds(latest.samples);
+    } else if (stored) {
+      totalSeconds = stored.asleepMinutes * 60;
+    } else {
+      for (const line of durationLines) {
+        const sec = parseDurationLine(line);
+        if (sec === null) {
+          ctx.log.warn('Unparseable duration line (ignored)', { line });
+          continue;
+        }
+        totalSeconds += sec;
+      }
     }
-  };
 
-  const outputPath = join(projectRoot, 'api', 'sleep.json');
-  await mkdir(dirname(outputPath), { recursive: true });
-  await writeFile(outputPath, JSON.stringify(output, null, 2) + '\n', 'utf-8');
-  console.log(`Wrote api/sleep.json (${segments} segments, ${output.detailed.hhmmss} total)`);
-}
+    const segments = latest ? latest.samples.length : (stored?.samples ?? durationLines.length);
+
+    const sleepMinutes = Math.round(totalSeconds / 60);
+    const sleepHours = Math.round((totalSeconds / 3600) * 100) / 100;
+
+    const hours = Math.floor(totalSeconds / 3600);
+    const remainder = totalSeconds % 3600;
+    const minutes = Math.floor(remainder / 60);
+    const seconds = remainder % 60;
 
-main().catch((err) => {
-  console.error('Fatal error:', err instanceof Error ? err.message : String(err));
-  process.exit(1);
+    const hhmm = `${hours}:${pad2(minutes)}`;
+    const hhmmss = `${hours}:${pad2(minutes)}:${pad2(seconds)}`;
+
+    const allNights = mergeNights(history, nights.map((n) => summarizeNight(n.night, n.samples)));
+
+    const output: SleepOutput = {
+      updatedAt: ctx.now.toISOString(),
+      night: latest?.night ?? stored?.night ?? null,
+      segments,
+      sleepSeconds: totalSeconds,
+      sleepMinutes,
+      sleepHours,
+      detailed: {
+        hours,
+        minutes,
+        seconds,
+        hhmm,
+        hhmmss
+      },
+      nights: allNights.slice(-NIGHTS_PUBLISHED),
+      ...sleepTrends(allNights, ctx.now, timeZone, targetHours)
+    };
+
+    return [
+      { path: 'raw-data/sleep-nights.json', data: allNights },
+      {
+        path: 'api/sleep.json',
+        data: output,
+        summary: output.night ? `${allNights.length} nights stored, ${hhmmss} asleep on ${output.night}` : `${segments} segments, ${hhmmss} total`
+      }
+    ];
+  }
 });
+
+runSourceScript(import.meta.url, sleepSource);
@@ -0,0 +1,170 @@
+import { addDays, isoWeekday, localDate, pad2, schema, wallTimeIn, type Schema } from '../core/index.js';
+import type { SleepNight } from './nights.js';
+
+/*
+ * Trends over the accumulated nights in raw-data/sleep-nights.json. Windows
+ * are the nights before today: "last 7" is the seven evenings up to and
+ * including yesterday's. Clock times are local and measured from noon, so a
+ * 23:30 and a 00:30 bedtime average to midnight rather than to noon.
+ */
+
+export const DEFAULT_TARGET_HOURS = 8;
+
+export type SleepAverage = {
+  nights: number;
+  asleepMinutes: number;
+  efficiency: number | null;
+};
+
+export type SleepDebt = {
+  targetHours: number;
+  nights: number;
+  /** Target minus actual over the last 7 nights; negative means more sleep than the target. */
+  minutes: number;
+};
+
+export type BedtimeConsistency = {
+  nights: number;
+  /** Mean local sleep onset, HH:MM. */
+  meanOnset: string;
+  stdDevMinutes: number;
+};
+
+export type SocialJetlag = {
+  /** Mean local mid-sleep on nights before a workday (Sunday to Thursday evenings), HH:MM. */
+  weekdayMidSleep: string;
+  /** Mean local mid-sleep on Friday and Saturday nights, HH:MM. */
+  weekendMidSleep: string;
+  /** Weekend minus weekday mid-sleep. */
+  minutes: number;
+  weekdayNights: number;
+  weekendNights: number;
+};
+
+export type SleepTrends = {
+  lastNight: SleepNight | null;
+  averages: { last7: SleepAverage | null; last30: SleepAverage | null };
+  sleepDebt: SleepDebt | null;
+  /** Over the last 30 nights. */
+  bedtimeConsistency: BedtimeConsistency | null;
+  /** Over the last 30 nights. */
+  socialJetlag: SocialJetlag | null;
+};
+
+const clock = schema.string({ pattern: /^\d{2}:\d{2}$/ });
+const averageSchema: Schema<SleepAverage> = schema.object({
+  nights: schema.integer({ minimum: 1 }),
+  asleepMinutes: schema.number({ minimum: 0 }),
+  efficiency: schema.nullable(schema.number({ minimum: 0 }))
+});
+
+export const sleepDebtSchema: Schema<SleepDebt> = schema.object({
+  targetHours: schema.number({ minimum: 0 }),
+  nights: schema.integer({ minimum: 1 }),
+  minutes: schema.number()
+});
+
+export const bedtimeConsistencySchema: Schema<BedtimeConsistency> = schema.object({
+  nights: schema.integer({ minimum: 2 }),
+  meanOnset: clock,
+  stdDevMinutes: schema.number({ minimum: 0 })
+});
+
+export const socialJetlagSchema: Schema<SocialJetlag> = schema.object({
+  weekdayMidSleep: clock,
+  weekendMidSleep: clock,
+  minutes: schema.number(),
+  weekdayNights: schema.integer({ minimum: 1 }),
+  weekendNights: schema.integer({ minimum: 1 })
+});
+
+export const sleepAveragesSchema: Schema<SleepTrends['averages']> = schema.object({
+  last7: schema.nullable(averageSchema),
+  last30: schema.nullable(averageSchema)
+});
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/** Minutes since the previous local noon, 0-1439. */
+function minutesFromNoon(iso: string, timeZone: string): number {
+  const w = wallTimeIn(timeZone, new Date(iso));
+  return (w.hour * 60 + w.minute + 720) % 1440;
+}
+
+function clockFromNoon(minutes: number): string {
+  const m = Math.round(minutes + 720) % 1440;
+  return `${pad2(Math.floor(m / 60))}:${pad2(m % 60)}`;
+}
+
+/** Nights from the `days` evenings before `today`. */
+function nightsBefore(nights: SleepNight[], today: string, days: number): SleepNight[] {
+  const from = addDays(today, -days);
+  return nights.filter((n) => n.night >= from && n.night < today);
+}
+
+function average(nights: SleepNight[]): SleepAverage | null {
+  if (nights.length === 0) return null;
+  const efficiencies = nights.map((n) => n.efficiency).filter((e): e is number => e !== null);
+  return {
+    nights: nights.length,
+    asleepMinutes: round1(mean(nights.map((n) => n.asleepMinutes))),
+    efficiency: efficiencies.length > 0 ? Math.round(mean(efficiencies) * 1000) / 1000 : null
+  };
+}
+
+function bedtimeConsistency(nights: SleepNight[], timeZone: string): BedtimeConsistency | null {
+  const onsets = nights.flatMap((n) => (n.sleepOnset ? [minutesFromNoon(n.sleepOnset, timeZone)] : []));
+  if (onsets.length < 2) return null;
+  const m = mean(onsets);
+  return {
+    nights: onsets.length,
+    meanOnset: clockFromNoon(m),
+    stdDevMinutes: round1(Math.sqrt(mean(onsets.map((o) => (o - m) ** 2))))
+  };
+}
+
+function socialJetlag(nights: SleepNight[], timeZone: string): SocialJetlag | null {
+  const weekday: number[] = [];
+  const weekend: number[] = [];
+  for (const n of nights) {
+    if (!n.sleepOnset || !n.wakeTime) continue;
+    const mid = new Date((Date.parse(n.sleepOnset) + Date.parse(n.wakeTime)) / 2).toISOString();
+    // Friday (5) and Saturday (6) evenings are followed by a free day.
+    const free = [5, 6].includes(isoWeekday(n.night));
+    (free ? weekend : weekday).push(minutesFromNoon(mid, timeZone));
+  }
+  if (weekday.length === 0 || weekend.length === 0) return null;
+  const weekdayMid = mean(weekday);
+  const weekendMid = mean(weekend);
+  return {
+    weekdayMidSleep: clockFromNoon(weekdayMid),
+    weekendMidSleep: clockFromNoon(weekendMid),
+    minutes: Math.round(weekendMid - weekdayMid),
+    weekdayNights: weekday.length,
+    weekendNights: weekend.length
+  };
+}
+
+/** Latest record per night wins; returns the merged history sorted by night. */
+export function mergeNights(stored: SleepNight[], latest: SleepNight[]): SleepNight[] {
+  const byNight = new Map(stored.map((n) => [n.night, n]));
+  for (const n of latest) byNight.set(n.night, n);
+  return [...byNight.values()].sort((a, b) => a.night.localeCompare(b.night));
+}
+
+export function sleepTrends(nights: SleepNight[], now: Date, timeZone: string, targetHours: number): SleepTrends {
+  const today = localDate(now, timeZone);
+  const last7 = nightsBefore(nights, today, 7);
+  const last30 = nightsBefore(nights, today, 30);
+  return {
+    lastNight: nights[nights.length - 1] ?? null,
+    averages: { last7: average(last7), last30: average(last30) },
+    sleepDebt:
+      last7.length > 0
+        ? { targetHours, nights: last7.length, minutes: Math.round(last7.reduce((sum, n) => sum + targetHours * 60 - n.asleepMinutes, 0)) }
+        : null,
+    bedtimeConsistency: bedtimeConsistency(last30, timeZone),
+    socialJetlag: socialJetlag(last30, timeZone)
+  };
+}
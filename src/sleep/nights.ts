@@ -0,0 +1,157 @@
+import { localDate, normalizeTimestamp, schema, type Schema } from '../core/index.js';
+
+/*
+ * Sleep samples as the Apple Health Shortcut exports them: one sample per
+ * line with a start, an end and a stage, e.g.
+ *
+ *   2026-10-17T23:12:00-04:00	2026-10-18T00:45:00-04:00	Core
+ *   Oct 17, 2026 at 11:12 PM - Oct 18, 2026 at 12:45 AM | Asleep (REM)
+ *
+ * Fields are split on tabs, "|", ";", " - " or " to ", or on commas when
+ * that finds no pair of timestamps. Timestamps without an offset are local
+ * time. Samples are grouped into nights running noon to noon, so a night is
+ * named after the evening it started on.
+ */
+
+export const SLEEP_STAGES = ['inBed', 'awake', 'core', 'deep', 'rem', 'asleep'] as const;
+
+/** "asleep" is Health's unspecified asleep value, from sources without stages. */
+export type SleepStage = (typeof SLEEP_STAGES)[number];
+
+export type SleepSample = { start: Date; end: Date; stage: SleepStage };
+
+export type SleepNight = {
+  /** The evening the night started on (YYYY-MM-DD). */
+  night: string;
+  /** Start of the first sample, in bed or asleep. */
+  bedtime: string;
+  /** Start of the first asleep sample. */
+  sleepOnset: string | null;
+  /** End of the last asleep sample. */
+  wakeTime: string | null;
+  asleepMinutes: number;
+  /** From bedtime to the end of the last sample. */
+  inBedMinutes: number;
+  /** asleepMinutes / inBedMinutes. */
+  efficiency: number | null;
+  /** Minutes per stage as recorded; sources can overlap, so these don't add up to asleepMinutes. */
+  stages: Record<SleepStage, number>;
+  samples: number;
+};
+
+/** Hours after midnight that still count as the previous night. */
+const NIGHT_CUTOFF_HOURS = 12;
+const ASLEEP_STAGES: ReadonlySet<SleepStage> = new Set(['core', 'deep', 'rem', 'asleep']);
+
+const minutes = schema.integer({ minimum: 0 });
+
+export const sleepNightSchema: Schema<SleepNight> = schema.object({
+  night: schema.string({ format: 'date' }),
+  bedtime: schema.string({ format: 'date-time' }),
+  sleepOnset: schema.nullable(schema.string({ format: 'date-time' })),
+  wakeTime: schema.nullable(schema.string({ format: 'date-time' })),
+  asleepMinutes: minutes,
+  inBedMinutes: minutes,
+  efficiency: schema.nullable(schema.number({ minimum: 0 })),
+  stages: schema.object({ inBed: minutes, awake: minutes, core: minutes, deep: minutes, rem: minutes, asleep: minutes }),
+  samples: schema.integer({ minimum: 1 })
+});
+
+/** Stage from a label like "Core", "Asleep (REM)", "HKCategoryValueSleepAnalysisInBed"; plain "asleep" when there's none. */
+export function parseStage(label: string): SleepStage | null {
+  const s = label.toLowerCase().replace(/[^a-z]/g, '');
+  if (!s || s === 'asleep' || s.endsWith('unspecified') || s.endsWith('asleep')) return 'asleep';
+  if (s.includes('inbed')) return 'inBed';
+  if (s.includes('awake')) return 'awake';
+  if (s.includes('deep')) return 'deep';
+  if (s.includes('rem')) return 'rem';
+  if (s.includes('core') || s.includes('light')) return 'core';
+  return null;
+}
+
+function parseFields(fields: string[], timeZone: string): SleepSample | null {
+  const times: Date[] = [];
+  const rest: string[] = [];
+  for (const field of fields) {
+    const t = times.length < 2 ? normalizeTimestamp(field, { timeZone }) : null;
+    if (t) times.push(new Date(t.iso));
+    else rest.push(field);
+  }
+  if (times.length < 2) return null;
+  const stage = parseStage(rest.join(' '));
+  if (!stage) return null;
+  const [start, end] = times[0] <= times[1] ? [times[0], times[1]] : [times[1], times[0]];
+  return { start, end, stage };
+}
+
+/** One sample line; null when it has no start/end pair or an unknown stage. */
+export function parseSampleLine(line: string, timeZone: string): SleepSample | null {
+  const split = (pattern: RegExp) =>
+    line
+      .split(pattern)
+      .map((f) => f.trim())
+      .filter(Boolean);
+  return parseFields(split(/\t|\s*[|;]\s*|\s+(?:[-–—]|to)\s+/), timeZone) ?? parseFields(split(/\s*,\s*/), timeZone);
+}
+
+/** Total length of the union of [start, end) intervals, in milliseconds. */
+function unionMs(samples: SleepSample[]): number {
+  const sorted = [...samples].sort((a, b) => a.start.getTime() - b.start.getTime());
+  let total = 0;
+  let runStart = -Infinity;
+  let runEnd = -Infinity;
+  for (const s of sorted) {
+    if (s.start.getTime() > runEnd) {
+      if (runEnd > runStart) total += runEnd - runStart;
+      runStart = s.start.getTime();
+      runEnd = s.end.getTime();
+    } else {
+      runEnd = Math.max(runEnd, s.end.getTime());
+    }
+  }
+  if (runEnd > runStart) total += runEnd - runStart;
+  return total;
+}
+
+export function nightOf(start: Date, timeZone: string): string {
+  return localDate(new Date(start.getTime() - NIGHT_CUTOFF_HOURS * 3600000), timeZone);
+}
+
+/** Asleep time of a set of samples with overlaps counted once, in seconds. */
+export function asleepSeconds(samples: SleepSample[]): number {
+  return Math.round(unionMs(samples.filter((s) => ASLEEP_STAGES.has(s.stage))) / 1000);
+}
+
+export function summarizeNight(night: string, samples: SleepSample[]): SleepNight {
+  const asleep = samples.filter((s) => ASLEEP_STAGES.has(s.stage));
+  const bedtime = Math.min(...samples.map((s) => s.start.getTime()));
+  const end = Math.max(...samples.map((s) => s.end.getTime()));
+  const asleepMinutes = Math.round(asleepSeconds(samples) / 60);
+  const inBedMinutes = Math.round((end - bedtime) / 60000);
+
+  const stages = Object.fromEntries(SLEEP_STAGES.map((stage) => [stage, 0])) as Record<SleepStage, number>;
+  for (const s of samples) stages[s.stage] += (s.end.getTime() - s.start.getTime()) / 60000;
+  for (const stage of SLEEP_STAGES) stages[stage] = Math.round(stages[stage]);
+
+  return {
+    night,
+    bedtime: new Date(bedtime).toISOString(),
+    sleepOnset: asleep.length > 0 ? new Date(Math.min(...asleep.map((s) => s.start.getTime()))).toISOString() : null,
+    wakeTime: asleep.length > 0 ? new Date(Math.max(...asleep.map((s) => s.end.getTime()))).toISOString() : null,
+    asleepMinutes,
+    inBedMinutes,
+    efficiency: inBedMinutes > 0 ? Math.round((Math.min(asleepMinutes, inBedMinutes) / inBedMinutes) * 1000) / 1000 : null,
+    stages,
+    samples: samples.length
+  };
+}
+
+/** Samples grouped by night, oldest night first. */
+export function groupNights(samples: SleepSample[], timeZone: string): { night: string; samples: SleepSample[] }[] {
+  const byNight = new Map<string, SleepSample[]>();
+  for (const s of samples) {
+    const night = nightOf(s.start, timeZone);
+    byNight.set(night, [...(byNight.get(night) ?? []), s]);
+  }
+  return [...byNight.entries()].sort((a, b) => a[0].localeCompare(b[0])).map(([night, list]) => ({ night, samples: list }));
+}
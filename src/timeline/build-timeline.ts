@@ -0,0 +1,148 @@
+import {
+  addDays,
+  defineSource,
+  findUpdatedAt,
+  loadEndpointVersions,
+  localDate,
+  resolveTimeZone,
+  runSourceScript,
+  schema,
+  type Schema
+} from '../core/index.js';
+import { gamesOutputSchema, type GamesOutput } from '../openxbl/build-openxbl.js';
+import { loadDailyMetrics, type DayMetrics } from '../rollups/build-rollups.js';
+import { locationOutputSchema, type LocationOutput } from '../shortcuts/endpoints.js';
+
+export type TimelineLocation = {
+  city: string;
+  region: string;
+  country: string;
+  countryCode: string;
+};
+
+/** One local day in the home time zone. null means nothing was recorded for it. */
+export type TimelineDay = {
+  date: string;
+  steps: number | null;
+  sleepHours: number | null;
+  contributions: number | null;
+  keys: number | null;
+  tasksCompleted: number | null;
+  /** Distinct titles whose last-played time fell on this day. */
+  gamesPlayed: number | null;
+  /** Last location reported that day. */
+  location: TimelineLocation | null;
+};
+
+export type TimelineOutput = {
+  updatedAt: string;
+  timezone: string;
+  from: string | null;
+  to: string | null;
+  days: TimelineDay[];
+};
+
+const reading = schema.nullable(schema.number({ minimum: 0 }));
+
+export const timelineOutputSchema: Schema<TimelineOutput> = schema.object({
+  updatedAt: schema.string({ format: 'date-time' }),
+  timezone: schema.string({ minLength: 1 }),
+  from: schema.nullable(schema.string({ format: 'date' })),
+  to: schema.nullable(schema.string({ format: 'date' })),
+  days: schema.array(
+    schema.object({
+      date: schema.string({ format: 'date' }),
+      steps: reading,
+      sleepHours: reading,
+      contributions: reading,
+      keys: reading,
+      tasksCompleted: reading,
+      gamesPlayed: schema.nullable(schema.integer({ minimum: 0 })),
+      location: schema.nullable(
+        schema.object({
+          city: schema.string(),
+          region: schema.string(),
+          country: schema.string(),
+          countryCode: schema.string()
+        })
+      )
+    })
+  )
+});
+
+type TimelineRaw = {
+  timeZone: string;
+  metrics: DayMetrics[];
+  games: GamesOutput[];
+  locations: LocationOutput[];
+};
+
+export const timelineSource = defineSource({
+  name: 'timeline',
+  description: 'One record per local day joining every daily series (reads the rollups and history)',
+  outputs: [
+    {
+      path: 'api/timeline.json',
+      schema: timelineOutputSchema,
+      refreshEvery: '1d',
+      // Rebuilt in full from rollups every run; a short history is enough.
+      history: { keepDailyDays: 7, keepMonthlyMonths: 3 }
+    }
+  ],
+  async fetch(): Promise<TimelineRaw> {
+    return {
+      timeZone: (await resolveTimeZone()).timeZone,
+      metrics: await loadDailyMetrics(),
+      games: await loadEndpointVersions<GamesOutput>('games', 'api/games.json', gamesOutputSchema),
+      locations: await loadEndpointVersions<LocationOutput>('location', 'api/location.json', locationOutputSchema)
+    };
+  },
+  normalize({ timeZone, metrics, games, locations }, ctx) {
+    const played = new Map<string, Set<string>>();
+    for (const version of games) {
+      for (const game of version.recentGames) {
+        if (!game.lastPlayed) continue;
+        const date = localDate(new Date(game.lastPlayed), timeZone);
+        played.set(date, (played.get(date) ?? new Set()).add(game.titleId));
+      }
+    }
+
+    // Versions are oldest first, so the last one seen for a day wins.
+    const whereabouts = new Map<string, TimelineLocation>();
+    for (const l of locations) {
+      const at = findUpdatedAt(l, { timeZone });
+      if (!at) continue;
+      whereabouts.set(localDate(new Date(at.iso), timeZone), {
+        city: l.city,
+        region: l.region,
+        country: l.country,
+        countryCode: l.countryCode
+      });
+    }
+
+    const byDate = new Map(metrics.map((d) => [d.date, d]));
+    const dates = [...byDate.keys(), ...played.keys(), ...whereabouts.keys()].sort();
+    const from = dates[0] ?? null;
+    const to = dates[dates.length - 1] ?? null;
+
+    const days: TimelineDay[] = [];
+    for (let date = from; date !== null && to !== null && date <= to; date = addDays(date, 1)) {
+      const m = byDate.get(date);
+      days.push({
+        date,
+        steps: m?.steps ?? null,
+        sleepHours: m?.sleepHours ?? null,
+        contributions: m?.contributions ?? null,
+        keys: m?.keys ?? null,
+        tasksCompleted: m?.tasksCompleted ?? null,
+        gamesPlayed: played.get(date)?.size ?? null,
+        location: whereabouts.get(date) ?? null
+      });
+    }
+
+    const output: TimelineOutput = { updatedAt: ctx.now.toISOString(), timezone: timeZone, from, to, days };
+    return [{ path: 'api/timeline.json', data: output, summary: `${days.length} days, ${from ?? '-'} → ${to ?? '-'}` }];
+  }
+});
+
+runSourceScript(import.meta.url, timelineSource);
@@ -1,26 +1,123 @@
-import { mkdir, writeFile } from 'node:fs/promises';
-import { dirname, join } from 'node:path';
-import { fileURLToPath } from 'node:url';
+import {
+  dataError,
+  defineSource,
+  localDate,
+  normalizeWhitespace,
+  resolveTimeZone,
+  runSourceScript,
+  schema,
+  type Logger,
+  type Schema
+} from '../core/index.js';
+import { parsePrivateProjects, todoistGet, type TodoistPage } from './todoist-api.js';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+/** Todoist only reports the last four weeks; TODOIST_WEEKS can publish fewer. */
+const DEFAULT_WEEKS = 4;
+const KARMA_HISTORY_LIMIT = 10;
 
-const ENDPOINT = 'https://api.todoist.com/api/v1/tasks/completed/stats';
+export type TodoistDay = { date: string; completed: number };
 
-function safeSnippet(text: string, maxLen: number = 200): string {
-  const s = String(text).trim();
-  if (s.length <= maxLen) return s;
-  return s.slice(0, maxLen) + '...';
-}
+export type TodoistWeek = { from: string; to: string; completed: number };
 
-/** Today's date in UTC as YYYY-MM-DD. */
-function todayUtc(): string {
-  const d = new Date();
-  const y = d.getUTCFullYear();
-  const m = String(d.getUTCMonth() + 1).padStart(2, '0');
-  const day = String(d.getUTCDate()).padStart(2, '0');
-  return `${y}-${m}-${day}`;
-}
+export type TodoistProject = {
+  id: string;
+  /** null when the project is gone or names couldn't be fetched. */
+  name: string | null;
+  completed: number;
+};
+
+export type TodoistKarma = {
+  value: number;
+  trend: 'up' | 'down' | 'flat';
+  /** Latest karma updates, newest first. */
+  history: { at: string; karma: number; change: number }[];
+};
+
+export type TodoistStreak = { count: number; start: string | null; end: string | null };
+
+export type TodoistGoals = {
+  daily: number;
+  weekly: number;
+  currentDailyStreak: TodoistStreak;
+  maxDailyStreak: TodoistStreak;
+  currentWeeklyStreak: TodoistStreak;
+  maxWeeklyStreak: TodoistStreak;
+  vacationMode: boolean;
+};
+
+export type TodoistOutput = {
+  updatedAt: string;
+  source: 'todoist-api-v1';
+  weekRange: string;
+  completedThisWeek: number;
+  /** All-time completed tasks. */
+  completedTotal?: number;
+  /** Completions per day for the last week Todoist reports, oldest first. */
+  days?: TodoistDay[];
+  /** The last TODOIST_WEEKS weeks, oldest first. */
+  weeks?: TodoistWeek[];
+  /** Completions per project over `weeks`, most first. */
+  projects?: TodoistProject[];
+  karma?: TodoistKarma | null;
+  goals?: TodoistGoals | null;
+};
+
+const dateString = schema.string({ format: 'date' });
+const completed = schema.integer({ minimum: 0 });
+
+const streakSchema: Schema<TodoistStreak> = schema.object({
+  count: schema.integer({ minimum: 0 }),
+  start: schema.nullable(dateString),
+  end: schema.nullable(dateString)
+});
+
+export const todoistOutputSchema: Schema<TodoistOutput> = schema.object({
+  updatedAt: schema.string({ format: 'date-time' }),
+  source: schema.literal('todoist-api-v1'),
+  weekRange: schema.string({ pattern: /^\d{4}-\d{2}-\d{2}\/\d{4}-\d{2}-\d{2}$/ }),
+  completedThisWeek: schema.integer({ minimum: 0 }),
+  // Optional so archived versions from before these sections still validate.
+  completedTotal: schema.optional(completed),
+  days: schema.optional(schema.array(schema.object({ date: dateString, completed }))),
+  weeks: schema.optional(schema.array(schema.object({ from: dateString, to: dateString, completed }))),
+  projects: schema.optional(
+    schema.array(
+      schema.object({
+        id: schema.string({ minLength: 1 }),
+        name: schema.nullable(schema.string({ minLength: 1 })),
+        completed
+      })
+    )
+  ),
+  karma: schema.optional(
+    schema.nullable(
+      schema.object({
+        value: schema.number({ minimum: 0 }),
+        trend: schema.literal('up', 'down', 'flat'),
+        history: schema.array(
+          schema.object({
+            at: schema.string({ format: 'date-time' }),
+            karma: schema.number({ minimum: 0 }),
+            change: schema.number()
+          })
+        )
+      })
+    )
+  ),
+  goals: schema.optional(
+    schema.nullable(
+      schema.object({
+        daily: schema.integer({ minimum: 0 }),
+        weekly: schema.integer({ minimum: 0 }),
+        currentDailyStreak: streakSchema,
+        maxDailyStreak: streakSchema,
+        currentWeeklyStreak: streakSchema,
+        maxWeeklyStreak: streakSchema,
+        vacationMode: schema.boolean()
+      })
+    )
+  )
+});
 
 /** Return true if date YYYY-MM-DD is inside range "start/end" (inclusive). */
 function dateInRange(date: string, range: string): boolean {
@@ -51,91 +148,182 @@ function getWeekRange(weekItem: Record<string, unknown>): string {
   return '';
 }
 
-async function main(): Promise<void> {
-  const token = process.env.TODOIST_API_TOKEN;
-  if (!token || !String(token).trim()) {
-    console.error('Missing or empty TODOIST_API_TOKEN.');
-    process.exit(1);
-  }
+type Row = Record<string, unknown>;
 
-  let res: Response;
-  try {
-    res = await fetch(ENDPOINT, {
-      method: 'GET',
-      headers: {
-        Authorization: `Bearer ${token.trim()}`
-      }
-    });
-  } catch (fetchErr) {
-    const msg = fetchErr instanceof Error ? fetchErr.message : String(fetchErr);
-    const cause = fetchErr instanceof Error && fetchErr.cause ? ` (${(fetchErr.cause as Error).message})` : '';
-    throw new Error(`Todoist request failed: ${msg}${cause}`);
-  }
+function rows(v: unknown): Row[] {
+  return Array.isArray(v) ? v.filter((x): x is Row => x !== null && typeof x === 'object') : [];
+}
 
-  const responseText = await res.text();
-  if (!res.ok) {
-    console.error(`Todoist request failed: HTTP ${res.status} ${res.statusText}.`);
-    console.error('Response snippet:', safeSnippet(responseText));
-    process.exit(1);
-  }
+function count(v: unknown): number {
+  return typeof v === 'number' && Number.isFinite(v) && v > 0 ? Math.round(v) : 0;
+}
 
-  let data: unknown;
-  try {
-    data = JSON.parse(responseText);
-  } catch {
-    console.error('Todoist response was not valid JSON.');
-    console.error('Response snippet:', safeSnippet(responseText));
-    process.exit(1);
-  }
+function positiveIntEnv(value: string | null, fallback: number): number {
+  const n = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
 
-  const weekItems = data && typeof data === 'object' && 'week_items' in data ? (data as { week_items?: unknown }).week_items : null;
+function dateOrNull(v: unknown): string | null {
+  return typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v.trim()) ? v.trim() : null;
+}
 
-  if (!Array.isArray(weekItems) || weekItems.length === 0) {
-    console.error('Todoist response missing or empty week_items.');
-    process.exit(1);
-  }
+function toStreak(v: unknown): TodoistStreak {
+  const o = v && typeof v === 'object' ? (v as Row) : {};
+  return { count: count(o.count), start: dateOrNull(o.start), end: dateOrNull(o.end) };
+}
+
+function toDays(stats: Row): TodoistDay[] {
+  return rows(stats.days_items)
+    .map((d) => ({ date: dateOrNull(d.date), completed: count(d.total_completed) }))
+    .filter((d): d is TodoistDay => d.date !== null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
 
-  const today = todayUtc();
-  let chosen = weekItems[0] as Record<string, unknown>;
-  for (const w of weekItems) {
-    const item = w && typeof w === 'object' ? (w as Record<string, unknown>) : null;
-    if (!item) continue;
-    const from = item.from as string | undefined;
-    const to = item.to as string | undefined;
-    if (typeof from === 'string' && typeof to === 'string' && dateInRange(today, `${from}/${to}`)) {
-      chosen = item;
-      break;
+/** The most recent `limit` weeks, oldest first, with their raw rows for the project breakdown. */
+function recentWeeks(weekItems: Row[], limit: number): { week: TodoistWeek; item: Row }[] {
+  return weekItems
+    .map((item) => ({ week: { from: dateOrNull(item.from), to: dateOrNull(item.to), completed: count(item.total_completed) }, item }))
+    .filter((w): w is { week: TodoistWeek; item: Row } => w.week.from !== null && w.week.to !== null)
+    .sort((a, b) => a.week.from.localeCompare(b.week.from))
+    .slice(-limit);
+}
+
+function projectTotals(weekItems: Row[], names: Map<string, string> | null): TodoistProject[] {
+  const totals = new Map<string, number>();
+  for (const week of weekItems) {
+    for (const item of rows(week.items)) {
+      const id = item.id === undefined || item.id === null ? '' : String(item.id);
+      if (id) totals.set(id, (totals.get(id) ?? 0) + count(item.completed));
     }
   }
+  return [...totals]
+    .filter(([, n]) => n > 0)
+    .map(([id, n]) => ({ id, name: names?.get(id) ?? null, completed: n }))
+    .sort((a, b) => b.completed - a.completed || a.id.localeCompare(b.id));
+}
 
-  const weekRange = getWeekRange(chosen);
-  const totalFromItem = typeof chosen.total_completed === 'number' && Number.isFinite(chosen.total_completed) ? chosen.total_completed : null;
-  const completedThisWeek = totalFromItem ?? sumCompletedFromItems(chosen.items ?? chosen.item ?? chosen.projects ?? []);
-
-  const output = {
-    updatedAt: new Date().toISOString(),
-    source: 'todoist-api-v1',
-    weekRange,
-    completedThisWeek
+function toKarma(stats: Row): TodoistKarma | null {
+  if (typeof stats.karma !== 'number' || !Number.isFinite(stats.karma)) return null;
+  const history: TodoistKarma['history'] = [];
+  for (const update of rows(stats.karma_update_reasons)) {
+    const at = typeof update.time === 'string' ? new Date(update.time) : null;
+    if (!at || Number.isNaN(at.getTime()) || typeof update.new_karma !== 'number') continue;
+    const change = (typeof update.positive_karma === 'number' ? update.positive_karma : 0) - (typeof update.negative_karma === 'number' ? update.negative_karma : 0);
+    history.push({ at: at.toISOString(), karma: update.new_karma, change });
+  }
+  history.sort((a, b) => b.at.localeCompare(a.at));
+  return {
+    value: stats.karma,
+    trend: stats.karma_trend === 'up' ? 'up' : stats.karma_trend === 'down' ? 'down' : 'flat',
+    history: history.slice(0, KARMA_HISTORY_LIMIT)
   };
+}
 
-  const projectRoot = join(__dirname, '../..');
-  const apiPath = join(projectRoot, 'api', 'todoist.json');
-  await mkdir(dirname(apiPath), { recursive: true });
-  await writeFile(apiPath, JSON.stringify(output, null, 2) + '\n', 'utf-8');
-  console.log('Wrote api/todoist.json');
+function toGoals(stats: Row): TodoistGoals | null {
+  const goals = stats.goals && typeof stats.goals === 'object' ? (stats.goals as Row) : null;
+  if (!goals) return null;
+  return {
+    daily: count(goals.daily_goal),
+    weekly: count(goals.weekly_goal),
+    currentDailyStreak: toStreak(goals.current_daily_streak),
+    maxDailyStreak: toStreak(goals.max_daily_streak),
+    currentWeeklyStreak: toStreak(goals.current_weekly_streak),
+    maxWeeklyStreak: toStreak(goals.max_weekly_streak),
+    vacationMode: goals.vacation_mode === true || goals.vacation_mode === 1
+  };
 }
 
-function formatErr(err: unknown): string {
-  if (err instanceof Error) {
-    const cause = err.cause instanceof Error ? ` (${err.cause.message})` : err.cause ? ` (cause: ${String(err.cause)})` : '';
-    return `${err.message}${cause}`;
+/**
+ * Project names for the breakdown, active and archived. Stats only carry
+ * project ids, so a failure here leaves names null instead of failing the run.
+ * Projects in TODOIST_PRIVATE_PROJECTS (by name or id) are left out, so they
+ * are published with a null name.
+ */
+async function fetchProjectNames(token: string, privateProjects: Set<string>, log: Logger): Promise<Map<string, string> | null> {
+  const names = new Map<string, string>();
+  try {
+    for (const path of ['/projects', '/projects/archived']) {
+      let cursor: string | null = null;
+      do {
+        const page: TodoistPage<Row> = await todoistGet(token, path, { limit: '200', ...(cursor ? { cursor } : {}) });
+        for (const p of rows(page.results)) {
+          const name = normalizeWhitespace(typeof p.name === 'string' ? p.name : '');
+          if (p.id === undefined || !name) continue;
+          const id = String(p.id);
+          if (!privateProjects.has(id.toLowerCase()) && !privateProjects.has(name.toLowerCase())) names.set(id, name);
+        }
+        cursor = page.next_cursor ?? null;
+      } while (cursor);
+    }
+  } catch (err) {
+    log.warn('Could not fetch Todoist project names', { error: err instanceof Error ? err.message : String(err) });
+    return null;
   }
-  return String(err);
+  return names;
 }
 
-main().catch((err) => {
-  console.error('Fatal error:', formatErr(err));
-  console.error('Check network access and that TODOIST_API_TOKEN is valid.');
-  process.exit(1);
+export const todoistSource = defineSource({
+  name: 'todoist',
+  description: 'Completed Todoist tasks: this week, per day, per week and per project, plus karma and goal streaks',
+  outputs: [{ path: 'api/todoist.json', schema: todoistOutputSchema, refreshEvery: '1w' }],
+  async fetch(ctx) {
+    const token = ctx.env('TODOIST_API_TOKEN');
+    const stats = await todoistGet<unknown>(token, '/tasks/completed/stats');
+    return {
+      stats,
+      projectNames: await fetchProjectNames(token, parsePrivateProjects(ctx.optionalEnv('TODOIST_PRIVATE_PROJECTS')), ctx.log),
+      weeks: positiveIntEnv(ctx.optionalEnv('TODOIST_WEEKS'), DEFAULT_WEEKS),
+      timeZone: (await resolveTimeZone()).timeZone
+    };
+  },
+  normalize({ stats: data, projectNames, weeks: weekLimit, timeZone }, ctx) {
+    const weekItems = data && typeof data === 'object' && 'week_items' in data ? (data as { week_items?: unknown }).week_items : null;
+
+    if (!Array.isArray(weekItems) || weekItems.length === 0) {
+      throw dataError('Todoist response missing or empty week_items.');
+    }
+
+    // week_items are in the Todoist account's zone; pick the week by the local date, not UTC.
+    const today = localDate(ctx.now, timeZone);
+    let chosen = weekItems[0] as Record<string, unknown>;
+    for (const w of weekItems) {
+      const item = w && typeof w === 'object' ? (w as Record<string, unknown>) : null;
+      if (!item) continue;
+      const from = item.from as string | undefined;
+      const to = item.to as string | undefined;
+      if (typeof from === 'string' && typeof to === 'string' && dateInRange(today, `${from}/${to}`)) {
+        chosen = item;
+        break;
+      }
+    }
+
+    const weekRange = getWeekRange(chosen);
+    const totalFromItem = typeof chosen.total_completed === 'number' && Number.isFinite(chosen.total_completed) ? chosen.total_completed : null;
+    const completedThisWeek = totalFromItem ?? sumCompletedFromItems(chosen.items ?? chosen.item ?? chosen.projects ?? []);
+
+    const stats = data as Row;
+    const weeks = recentWeeks(rows(weekItems), weekLimit);
+    const output: TodoistOutput = {
+      updatedAt: ctx.now.toISOString(),
+      source: 'todoist-api-v1',
+      weekRange,
+      completedThisWeek,
+      completedTotal: count(stats.completed_count),
+      days: toDays(stats),
+      weeks: weeks.map((w) => w.week),
+      projects: projectTotals(weeks.map((w) => w.item), projectNames),
+      karma: toKarma(stats),
+      goals: toGoals(stats)
+    };
+
+    return [
+      {
+        path: 'api/todoist.json',
+        data: output,
+        summary: `${completedThisWeek} completed this week, ${output.projects?.length ?? 0} projects, karma ${output.karma?.value ?? '-'}`
+      }
+    ];
+  }
 });
+
+runSourceScript(import.meta.url, todoistSource);
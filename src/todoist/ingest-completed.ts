@@ -0,0 +1,361 @@
+import { createHash } from 'node:crypto';
+import {
+  addDays,
+  defineSource,
+  isoWeekday,
+  localDate,
+  normalizeWhitespace,
+  pad2,
+  readJsonFileOr,
+  resolveTimeZone,
+  runSourceScript,
+  schema,
+  wallTimeIn,
+  type Logger,
+  type Schema
+} from '../core/index.js';
+import { parsePrivateProjects, todoistGet, todoistSync, type SyncProject, type TodoistPage } from './todoist-api.js';
+
+/*
+ * Every completed Todoist task, kept in raw-data/todoist-completed.json and
+ * extended each run from the newest stored completion. Project names and
+ * states come from the Sync API and are updated incrementally with the stored
+ * sync token. Tasks in TODOIST_PRIVATE_PROJECTS (names or ids, comma-separated)
+ * lose their content and labels before they are stored, and those projects'
+ * names are never stored either.
+ */
+
+export type StoredTask = {
+  id: string;
+  /** null when redacted. */
+  content: string | null;
+  projectId: string | null;
+  labels: string[];
+  /** 1 (normal) to 4 (urgent), as the API numbers them. */
+  priority: number;
+  addedAt: string | null;
+  completedAt: string;
+  /** Due date (YYYY-MM-DD) or date-time, as Todoist had it when the task was completed. */
+  due: string | null;
+  recurring: boolean;
+  redacted: boolean;
+};
+
+type StoredProject = {
+  /** null for private projects. */
+  name: string | null;
+  private: boolean;
+  archived: boolean;
+  deleted: boolean;
+};
+
+/** raw-data/todoist-sync.json */
+type SyncState = {
+  syncToken: string;
+  /** Hash of TODOIST_PRIVATE_PROJECTS; when it changes, projects are fully synced again to re-judge them. */
+  privacyKey: string;
+  projects: Record<string, StoredProject>;
+};
+
+export type CompletedTasksOutput = {
+  updatedAt: string;
+  timezone: string;
+  /** First stored completion; nothing before it is known. */
+  since: string | null;
+  totalCompleted: number;
+  redactedTasks: number;
+  /** Hours from creation to completion, for non-recurring tasks. */
+  timeToComplete: { tasks: number; medianHours: number; p90Hours: number } | null;
+  /** Non-recurring tasks completed after their due date. */
+  overdue: { withDueDate: number; overdue: number; rate: number | null };
+  /** Completions per local hour, 0-23. */
+  hours: number[];
+  /** Completions per weekday, Monday first. */
+  weekdays: number[];
+  /** Latest completions, newest first. Content and project are null for private projects. */
+  recent: { content: string | null; project: string | null; completedAt: string }[];
+};
+
+/** First run: how far back to fetch. */
+const DEFAULT_BACKFILL_DAYS = 90;
+/** The by-completion-date endpoint accepts at most about three months per request. */
+const WINDOW_DAYS = 89;
+/** Re-fetched each run for completions that sync late, e.g. from an offline phone. */
+const OVERLAP_DAYS = 1;
+const PAGE_LIMIT = 200;
+const RECENT_LIMIT = 10;
+
+export const completedTasksOutputSchema: Schema<CompletedTasksOutput> = schema.object({
+  updatedAt: schema.string({ format: 'date-time' }),
+  timezone: schema.string({ minLength: 1 }),
+  since: schema.nullable(schema.string({ format: 'date-time' })),
+  totalCompleted: schema.integer({ minimum: 0 }),
+  redactedTasks: schema.integer({ minimum: 0 }),
+  timeToComplete: schema.nullable(
+    schema.object({
+      tasks: schema.integer({ minimum: 1 }),
+      medianHours: schema.number({ minimum: 0 }),
+      p90Hours: schema.number({ minimum: 0 })
+    })
+  ),
+  overdue: schema.object({
+    withDueDate: schema.integer({ minimum: 0 }),
+    overdue: schema.integer({ minimum: 0 }),
+    rate: schema.nullable(schema.number({ minimum: 0 }))
+  }),
+  hours: schema.array(schema.integer({ minimum: 0 }), { minItems: 24 }),
+  weekdays: schema.array(schema.integer({ minimum: 0 }), { minItems: 7 }),
+  recent: schema.array(
+    schema.object({
+      content: schema.nullable(schema.string()),
+      project: schema.nullable(schema.string()),
+      completedAt: schema.string({ format: 'date-time' })
+    })
+  )
+});
+
+type RawTask = {
+  id?: string;
+  content?: string;
+  project_id?: string | null;
+  labels?: string[];
+  priority?: number;
+  added_at?: string | null;
+  completed_at?: string | null;
+  due?: { date?: string; is_recurring?: boolean } | null;
+};
+
+type RawCompleted = {
+  timeZone: string;
+  tasks: StoredTask[];
+  sync: SyncState;
+};
+
+function positiveIntEnv(value: string | null, fallback: number): number {
+  const n = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+function isoOrNull(v: string | null | undefined): string | null {
+  const d = v ? new Date(v) : null;
+  return d && !Number.isNaN(d.getTime()) ? d.toISOString() : null;
+}
+
+function taskKey(t: StoredTask): string {
+  // Recurring tasks keep their id across completions.
+  return `${t.id}\t${t.completedAt}`;
+}
+
+function toStored(t: RawTask): StoredTask | null {
+  const completedAt = isoOrNull(t.completed_at);
+  if (!t.id || !completedAt) return null;
+  const due = typeof t.due?.date === 'string' && /^\d{4}-\d{2}-\d{2}/.test(t.due.date) ? t.due.date : null;
+  return {
+    id: String(t.id),
+    content: normalizeWhitespace(t.content || '') || null,
+    projectId: t.project_id ? String(t.project_id) : null,
+    labels: Array.isArray(t.labels) ? t.labels.filter((l) => typeof l === 'string') : [],
+    priority: typeof t.priority === 'number' ? t.priority : 1,
+    addedAt: isoOrNull(t.added_at),
+    completedAt,
+    due,
+    recurring: t.due?.is_recurring === true,
+    redacted: false
+  };
+}
+
+function redact(task: StoredTask): StoredTask {
+  return { ...task, content: null, labels: [], redacted: true };
+}
+
+function privacyKey(privateProjects: Set<string>): string {
+  return createHash('sha256').update([...privateProjects].sort().join('\n')).digest('hex');
+}
+
+/** Apply project metadata changes from a sync response on top of what's stored. */
+function mergeProjects(
+  previous: Record<string, StoredProject>,
+  projects: SyncProject[],
+  fullSync: boolean,
+  privateProjects: Set<string>
+): Record<string, StoredProject> {
+  // Deleted projects drop out of a full sync; keep them for the tasks that were in them.
+  const next: Record<string, StoredProject> = { ...previous };
+  if (fullSync) for (const id of Object.keys(next)) next[id] = { ...next[id], deleted: true };
+  for (const p of projects) {
+    if (!p.id) continue;
+    const id = String(p.id);
+    const name = normalizeWhitespace(p.name || '') || next[id]?.name || null;
+    const isPrivate = privateProjects.has(id.toLowerCase()) || (name !== null && privateProjects.has(name.toLowerCase()));
+    next[id] = {
+      name: isPrivate ? null : name,
+      private: isPrivate,
+      archived: p.is_archived === true,
+      deleted: p.is_deleted === true
+    };
+  }
+  return next;
+}
+
+/** Completions from `since` to `until`, a window at a time. */
+async function fetchCompleted(token: string, since: Date, until: Date, log: Logger): Promise<StoredTask[]> {
+  const out: StoredTask[] = [];
+  for (let start = since; start < until; ) {
+    const end = new Date(Math.min(until.getTime(), start.getTime() + WINDOW_DAYS * 86400000));
+    let cursor: string | null = null;
+    do {
+      const page: TodoistPage<RawTask> = await todoistGet(token, '/tasks/completed/by_completion_date', {
+        since: start.toISOString(),
+        until: end.toISOString(),
+        limit: String(PAGE_LIMIT),
+        ...(cursor ? { cursor } : {})
+      });
+      for (const t of page.items ?? []) {
+        const s = toStored(t);
+        if (s) out.push(s);
+      }
+      cursor = page.next_cursor ?? null;
+    } while (cursor);
+    log.debug(`Fetched completions ${start.toISOString()} – ${end.toISOString()}`, { total: out.length });
+    start = end;
+  }
+  return out;
+}
+
+function percentile(sorted: number[], p: number): number {
+  const i = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1));
+  return sorted[i];
+}
+
+/** Whether a task was completed after its due date (or date-time), judged on the local calendar. */
+function completedLate(task: StoredTask, timeZone: string): boolean | null {
+  if (!task.due) return null;
+  const completed = new Date(task.completedAt);
+  if (task.due.length === 10) return localDate(completed, timeZone) > task.due;
+  // A date-time with an offset is an instant; without one it's wall time in the account's zone.
+  if (/(Z|[+-]\d{2}:?\d{2})$/.test(task.due)) return completed.getTime() > Date.parse(task.due);
+  const w = wallTimeIn(timeZone, completed);
+  const wall = `${w.year}-${pad2(w.month)}-${pad2(w.day)}T${pad2(w.hour)}:${pad2(w.minute)}:${pad2(w.second)}`;
+  return wall > task.due.slice(0, 19);
+}
+
+export function summarizeCompleted(
+  tasks: StoredTask[],
+  projects: Record<string, StoredProject>,
+  timeZone: string
+): Omit<CompletedTasksOutput, 'updatedAt' | 'timezone'> {
+  const hours = new Array<number>(24).fill(0);
+  const weekdays = new Array<number>(7).fill(0);
+  const durations: number[] = [];
+  let withDueDate = 0;
+  let overdue = 0;
+  for (const t of tasks) {
+    const w = wallTimeIn(timeZone, new Date(t.completedAt));
+    hours[w.hour] += 1;
+    weekdays[isoWeekday(`${w.year}-${pad2(w.month)}-${pad2(w.day)}`) - 1] += 1;
+
+    // A recurring task's creation time and due date describe the series, not this completion.
+    if (t.recurring) continue;
+    if (t.addedAt) {
+      const hoursOpen = (Date.parse(t.completedAt) - Date.parse(t.addedAt)) / 3600000;
+      if (hoursOpen >= 0) durations.push(hoursOpen);
+    }
+    const late = completedLate(t, timeZone);
+    if (late !== null) {
+      withDueDate += 1;
+      if (late) overdue += 1;
+    }
+  }
+  durations.sort((a, b) => a - b);
+  const round1 = (n: number) => Math.round(n * 10) / 10;
+
+  return {
+    since: tasks[0]?.completedAt ?? null,
+    totalCompleted: tasks.length,
+    redactedTasks: tasks.filter((t) => t.redacted).length,
+    timeToComplete:
+      durations.length > 0
+        ? { tasks: durations.length, medianHours: round1(percentile(durations, 0.5)), p90Hours: round1(percentile(durations, 0.9)) }
+        : null,
+    overdue: { withDueDate, overdue, rate: withDueDate > 0 ? Math.round((overdue / withDueDate) * 1000) / 1000 : null },
+    hours,
+    weekdays,
+    recent: tasks
+      .slice(-RECENT_LIMIT)
+      .reverse()
+      .map((t) => ({
+        content: t.content,
+        project: t.redacted || !t.projectId ? null : (projects[t.projectId]?.name ?? null),
+        completedAt: t.completedAt
+      }))
+  };
+}
+
+export const completedTasksSource = defineSource({
+  name: 'todoist-tasks',
+  description: 'Completed Todoist tasks: time to complete, overdue rate and completion hour of day from the stored task log',
+  outputs: [
+    { path: 'raw-data/todoist-completed.json' },
+    { path: 'raw-data/todoist-sync.json' },
+    { path: 'api/todoist-tasks.json', schema: completedTasksOutputSchema, refreshEvery: '1w' }
+  ],
+  async fetch(ctx): Promise<RawCompleted> {
+    const token = ctx.env('TODOIST_API_TOKEN');
+    const stored = await readJsonFileOr<unknown>(ctx.path('raw-data', 'todoist-completed.json'), []);
+    const tasks = Array.isArray(stored) ? (stored as StoredTask[]) : [];
+    const state = await readJsonFileOr<SyncState | null>(ctx.path('raw-data', 'todoist-sync.json'), null);
+
+    const privateProjects = parsePrivateProjects(ctx.optionalEnv('TODOIST_PRIVATE_PROJECTS'));
+    const key = privacyKey(privateProjects);
+    const incremental = state?.syncToken && state.privacyKey === key ? state.syncToken : null;
+    const sync = await todoistSync(token, incremental ?? '*', ['projects']);
+    const projects = mergeProjects(incremental ? state?.projects ?? {} : {}, sync.projects ?? [], sync.full_sync ?? !incremental, privateProjects);
+
+    const last = tasks[tasks.length - 1]?.completedAt;
+    const backfillDays = positiveIntEnv(ctx.optionalEnv('TODOIST_BACKFILL_DAYS'), DEFAULT_BACKFILL_DAYS);
+    const since = last
+      ? new Date(Date.parse(last) - OVERLAP_DAYS * 86400000)
+      : new Date(`${addDays(ctx.now.toISOString().slice(0, 10), -backfillDays)}T00:00:00Z`);
+    const fetched = await fetchCompleted(token, since, ctx.now, ctx.log);
+    ctx.log.info(`Fetched ${fetched.length} completions`, { since: since.toISOString() });
+
+    const seen = new Set(tasks.map(taskKey));
+    const merged = [...tasks];
+    for (const t of fetched) {
+      if (seen.has(taskKey(t))) continue;
+      seen.add(taskKey(t));
+      merged.push(t);
+    }
+
+    // Redaction is reapplied to the whole log, so adding a project to the list also scrubs its history.
+    const isPrivate = (projectId: string | null) =>
+      projectId !== null && (privateProjects.has(projectId.toLowerCase()) || projects[projectId]?.private === true);
+    const kept = merged
+      .map((t) => (t.redacted || !isPrivate(t.projectId) ? t : redact(t)))
+      .sort((a, b) => a.completedAt.localeCompare(b.completedAt));
+
+    return {
+      timeZone: (await resolveTimeZone()).timeZone,
+      tasks: kept,
+      sync: { syncToken: sync.sync_token || incremental || '*', privacyKey: key, projects }
+    };
+  },
+  normalize({ timeZone, tasks, sync }, ctx) {
+    const output: CompletedTasksOutput = {
+      updatedAt: ctx.now.toISOString(),
+      timezone: timeZone,
+      ...summarizeCompleted(tasks, sync.projects, timeZone)
+    };
+    return [
+      { path: 'raw-data/todoist-completed.json', data: tasks },
+      { path: 'raw-data/todoist-sync.json', data: sync },
+      {
+        path: 'api/todoist-tasks.json',
+        data: output,
+        summary: `${tasks.length} completed tasks, ${output.redactedTasks} redacted`
+      }
+    ];
+  }
+});
+
+runSourceScript(import.meta.url, completedTasksSource);
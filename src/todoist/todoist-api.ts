@@ -0,0 +1,58 @@
+import { fetchJson, normalizeWhitespace } from '../core/index.js';
+
+/*
+ * Todoist API v1, shared by the stats and completed-task sources. Both
+ * authenticate with TODOIST_API_TOKEN (Settings → Integrations → Developer).
+ */
+
+export const API_BASE = 'https://api.todoist.com/api/v1';
+export const TOKEN_HINT = 'Check network access and that TODOIST_API_TOKEN is valid.';
+
+export type TodoistPage<T> = { results?: T[]; items?: T[]; next_cursor?: string | null };
+
+export type SyncProject = {
+  id?: string;
+  name?: string;
+  is_deleted?: boolean;
+  is_archived?: boolean;
+  shared?: boolean;
+};
+
+export type SyncResponse = {
+  sync_token?: string;
+  full_sync?: boolean;
+  projects?: SyncProject[];
+};
+
+/** TODOIST_PRIVATE_PROJECTS: comma-separated project names or ids, lowercased. */
+export function parsePrivateProjects(value: string | null): Set<string> {
+  return new Set(
+    (value ?? '')
+      .split(',')
+      .map((s) => normalizeWhitespace(s).toLowerCase())
+      .filter(Boolean)
+  );
+}
+
+export async function todoistGet<T>(token: string, path: string, params: Record<string, string> = {}): Promise<T> {
+  const url = new URL(`${API_BASE}${path}`);
+  for (const [k, v] of Object.entries(params)) url.searchParams.set(k, v);
+  return fetchJson<T>('Todoist', url.toString(), { method: 'GET', headers: { Authorization: `Bearer ${token}` } }, TOKEN_HINT);
+}
+
+/** Sync API read: everything on "*", otherwise only what changed since `syncToken`. */
+export async function todoistSync(token: string, syncToken: string, resourceTypes: string[]): Promise<SyncResponse> {
+  return fetchJson<SyncResponse>(
+    'Todoist sync',
+    `${API_BASE}/sync`,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({ sync_token: syncToken, resource_types: JSON.stringify(resourceTypes) }).toString()
+    },
+    TOKEN_HINT
+  );
+}
@@ -0,0 +1,31 @@
+declare module 'xbox-webapi' {
+  type XboxProvider = {
+    get(url: string): Promise<unknown>;
+    post(url: string, postData: string): Promise<unknown>;
+  };
+
+  type XboxTokens = { oauth: Record<string, unknown>; user: Record<string, unknown>; xsts: Record<string, unknown> };
+
+  type XboxAuthentication = {
+    _tokensFile: string;
+    _tokens: XboxTokens;
+    _user: false | { gamertag: string; xid: string; uhs: string };
+    refreshToken(refreshToken: string): Promise<Record<string, unknown>>;
+    refreshTokens(type?: 'oauth' | 'user' | 'xsts'): Promise<void>;
+  };
+
+  type XboxApiClient = {
+    _authentication: XboxAuthentication;
+    getProvider(name: 'titlehub'): XboxProvider & { getTitleHistory(): Promise<unknown> };
+    getProvider(name: 'achievements'): XboxProvider & {
+      getTitleAchievements(continuationToken?: number): Promise<unknown>;
+      getTitleId(titleId: string, continuationToken?: number): Promise<unknown>;
+    };
+    getProvider(name: 'profile'): XboxProvider & { getUserProfile(): Promise<unknown> };
+    getProvider(name: 'userstats'): XboxProvider & { getUserTitleStats(titleId: string): Promise<unknown> };
+    getProvider(name: string): XboxProvider | false;
+  };
+
+  function XboxApiClient(config?: { clientId?: string; clientSecret?: string; userToken?: string; uhs?: string }): XboxApiClient;
+  export default XboxApiClient;
+}
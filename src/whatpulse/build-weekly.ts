@@ -1,13 +1,18 @@
-import { mkdir, readFile, writeFile } from 'node:fs/promises';
-import { dirname, join } from 'node:path';
-import { fileURLToPath } from 'node:url';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
-type Counters = { keys: number; clicks: number; scrolls: number; uptimeSeconds: number };
-
-type Snapshot = {
+import {
+  currentWeek,
+  dataError,
+  defineSource,
+  readJsonFile,
+  readJsonFileOr,
+  resolveTimeZone,
+  runSourceScript,
+  schema,
+  type Schema
+} from '../core/index.js';
+
+export type Counters = { keys: number; clicks: number; scrolls: number; uptimeSeconds: number };
+
+export type Snapshot = {
   capturedAt: string;
   source: string;
   counters: Counters;
@@ -32,7 +37,7 @@ function getCounters(api: WhatPulseJson): Counters {
   const scrolls = toNumber(prefer.scrolls);
   const uptimeSeconds = toNumber(prefer.uptimeSeconds);
   if (keys == null || clicks == null || scrolls == null || uptimeSeconds == null) {
-    throw new Error(
+    throw dataError(
       'api/whatpulse.json missing counters. Prefer unpulsed; fallback totals. Need keys, clicks, scrolls, uptimeSeconds.'
     );
   }
@@ -48,91 +53,91 @@ function delta(prev: Counters, current: Counters): Counters {
   };
 }
 
-export async function main(): Promise<void> {
-  const projectRoot = join(__dirname, '../..');
-  const apiPath = join(projectRoot, 'api', 'whatpulse.json');
-  const snapshotsPath = join(projectRoot, 'raw-data', 'whatpulse-weekly-snapshots.json');
-  const weeklyPath = join(projectRoot, 'api', 'whatpulse-weekly.json');
-
-  let apiRaw: string;
-  try {
-    apiRaw = await readFile(apiPath, 'utf-8');
-  } catch (err) {
-    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
-      throw new Error('api/whatpulse.json not found. Run whatpulse:build first.');
-    }
-    throw err;
-  }
-
-  let api: WhatPulseJson;
-  try {
-    api = JSON.parse(apiRaw) as WhatPulseJson;
-  } catch {
-    throw new Error('api/whatpulse.json is not valid JSON.');
-  }
-
-  const counters = getCounters(api);
-  const capturedAt = new Date().toISOString();
-  const snapshot: Snapshot = {
-    capturedAt,
-    source: 'whatpulse-client-api',
-    counters
-  };
+export type WhatPulseWeeklyOutput = {
+  updatedAt: string;
+  source: 'whatpulse-client-api';
+  window: 'weekly';
+  /** Calendar week (Monday/Sunday in the home time zone) the counters belong to. */
+  week?: string;
+  range: string | null;
+  counters: Counters | null;
+  note: string | null;
+};
 
-  let snapshots: Snapshot[] = [];
-  try {
-    const raw = await readFile(snapshotsPath, 'utf-8');
-    const parsed = JSON.parse(raw);
-    if (Array.isArray(parsed)) snapshots = parsed as Snapshot[];
-  } catch {
+export const whatpulseWeeklyOutputSchema: Schema<WhatPulseWeeklyOutput> = schema.object({
+  updatedAt: schema.string({ format: 'date-time' }),
+  source: schema.literal('whatpulse-client-api'),
+  window: schema.literal('weekly'),
+  // Optional so archived versions from before weeks were calendar-aligned still validate.
+  week: schema.optional(schema.string({ pattern: /^\d{4}-\d{2}-\d{2}\/\d{4}-\d{2}-\d{2}$/ })),
+  range: schema.nullable(schema.string({ minLength: 1 })),
+  counters: schema.nullable(
+    schema.object({
+      keys: schema.integer({ minimum: 0 }),
+      clicks: schema.integer({ minimum: 0 }),
+      scrolls: schema.integer({ minimum: 0 }),
+      uptimeSeconds: schema.integer({ minimum: 0 })
+    })
+  ),
+  note: schema.nullable(schema.string())
+});
+
+export const whatpulseWeeklySource = defineSource({
+  name: 'whatpulse-weekly',
+  description: 'WhatPulse counter deltas since the start of the current week',
+  outputs: [
+    { path: 'raw-data/whatpulse-weekly-snapshots.json' },
+    { path: 'api/whatpulse-weekly.json', schema: whatpulseWeeklyOutputSchema, refreshEvery: '1h' }
+  ],
+  async fetch(ctx) {
+    const api = await readJsonFile<WhatPulseJson>(ctx.path('api', 'whatpulse.json'), 'Run whatpulse:build first.');
     // ENOENT or invalid JSON: keep []
-  }
-
-  snapshots.push(snapshot);
-  await mkdir(dirname(snapshotsPath), { recursive: true });
-  await writeFile(snapshotsPath, JSON.stringify(snapshots, null, 2) + '\n', 'utf-8');
+    const parsed = await readJsonFileOr<unknown>(ctx.path('raw-data', 'whatpulse-weekly-snapshots.json'), []);
+    const snapshots = Array.isArray(parsed) ? (parsed as Snapshot[]) : [];
+    return { api, snapshots, timeZone: (await resolveTimeZone()).timeZone };
+  },
+  normalize({ api, snapshots, timeZone }, ctx) {
+    const counters = getCounters(api);
+    const capturedAt = ctx.now.toISOString();
+    const snapshot: Snapshot = {
+      capturedAt,
+      source: 'whatpulse-client-api',
+      counters
+    };
 
-  const updatedAt = capturedAt;
-  const source = 'whatpulse-client-api';
-  const window = 'weekly';
+    const nextSnapshots = [...snapshots, snapshot];
+    const snapshotsFile = { path: 'raw-data/whatpulse-weekly-snapshots.json', data: nextSnapshots };
+    const week = currentWeek(ctx.now, timeZone);
+
+    if (nextSnapshots.length < 2) {
+      const output: WhatPulseWeeklyOutput = {
+        updatedAt: capturedAt,
+        source: 'whatpulse-client-api',
+        window: 'weekly',
+        week: `${week.weekStart}/${week.weekEnd}`,
+        range: null,
+        counters: null,
+        note: 'Not enough history yet. Run again next week to compute deltas.'
+      };
+      return [snapshotsFile, { path: 'api/whatpulse-weekly.json', data: output, summary: 'no delta yet; run again next week' }];
+    }
 
-  if (snapshots.length < 2) {
-    await mkdir(dirname(weeklyPath), { recursive: true });
-    const output = {
-      updatedAt,
-      source,
-      window,
-      range: null as string | null,
-      counters: null as Counters | null,
-      note: 'Not enough history yet. Run again next week to compute deltas.' as string | null
+    // Baseline: the last snapshot from before this week began, so hourly runs
+    // still report the week so far. Without one, fall back to the previous snapshot.
+    const beforeWeek = snapshots.filter((s) => new Date(s.capturedAt).getTime() < new Date(week.start).getTime());
+    const prev = beforeWeek[beforeWeek.length - 1] ?? nextSnapshots[nextSnapshots.length - 2];
+    const current = snapshot;
+    const output: WhatPulseWeeklyOutput = {
+      updatedAt: capturedAt,
+      source: 'whatpulse-client-api',
+      window: 'weekly',
+      week: `${week.weekStart}/${week.weekEnd}`,
+      range: `${prev.capturedAt}/${current.capturedAt}`,
+      counters: delta(prev.counters, current.counters),
+      note: null
     };
-    await writeFile(weeklyPath, JSON.stringify(output, null, 2) + '\n', 'utf-8');
-    console.log('Wrote api/whatpulse-weekly.json (no delta yet; run again next week).');
-    return;
+    return [snapshotsFile, { path: 'api/whatpulse-weekly.json', data: output }];
   }
+});
 
-  const prev = snapshots[snapshots.length - 2];
-  const current = snapshots[snapshots.length - 1];
-  const range = `${prev.capturedAt}/${current.capturedAt}`;
-  const countersDelta = delta(prev.counters, current.counters);
-
-  await mkdir(dirname(weeklyPath), { recursive: true });
-  const output = {
-    updatedAt,
-    source,
-    window,
-    range,
-    counters: countersDelta,
-    note: null as string | null
-  };
-  await writeFile(weeklyPath, JSON.stringify(output, null, 2) + '\n', 'utf-8');
-  console.log('Wrote api/whatpulse-weekly.json');
-}
-
-const isMain = process.argv[1] && __filename === process.argv[1];
-if (isMain) {
-  main().catch((err) => {
-    console.error('Fatal error:', err instanceof Error ? err.message : String(err));
-    process.exit(1);
-  });
-}
+runSourceScript(import.meta.url, whatpulseWeeklySource);
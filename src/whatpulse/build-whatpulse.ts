@@ -1,9 +1,4 @@
-import { mkdir, readFile, writeFile } from 'node:fs/promises';
-import { dirname, join } from 'node:path';
-import { fileURLToPath } from 'node:url';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+import { defineSource, readJsonFile, runSourceScript, schema, type Schema } from '../core/index.js';
 
 export type WhatPulseOutput = {
   updatedAt: string;
@@ -26,6 +21,26 @@ export type WhatPulseOutput = {
   };
 };
 
+const countersSchema = schema.object({
+  keys: schema.nullable(schema.integer({ minimum: 0 })),
+  clicks: schema.nullable(schema.integer({ minimum: 0 })),
+  scrolls: schema.nullable(schema.integer({ minimum: 0 })),
+  uptimeSeconds: schema.nullable(schema.integer({ minimum: 0 }))
+});
+
+export const whatpulseOutputSchema: Schema<WhatPulseOutput> = schema.object({
+  updatedAt: schema.string({ format: 'date-time' }),
+  source: schema.literal('whatpulse-client-api'),
+  totals: countersSchema,
+  unpulsed: schema.nullable(countersSchema),
+  debug: schema.optional(
+    schema.object({
+      topLevelKeys: schema.array(schema.string()),
+      detectedPaths: schema.record(schema.nullable(schema.string()))
+    })
+  )
+});
+
 type NumericField = 'keys' | 'clicks' | 'scrolls' | 'uptimeSeconds';
 
 const FIELD_PATTERNS: Record<NumericField, string[]> = {
@@ -123,74 +138,53 @@ function extractSection(
   return result;
 }
 
-export async function main(): Promise<void> {
-  const projectRoot = join(__dirname, '../..');
-  const rawPath = join(projectRoot, 'raw-data', 'whatpulse-raw.json');
-
-  let raw: string;
-  try {
-    raw = await readFile(rawPath, 'utf-8');
-  } catch (err) {
-    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
-      console.error('raw-data/whatpulse-raw.json not found. Run whatpulse:fetch first.');
-    } else {
-      console.error('Failed to read raw-data/whatpulse-raw.json:', err instanceof Error ? err.message : String(err));
+export const whatpulseSource = defineSource({
+  name: 'whatpulse',
+  description: 'WhatPulse totals and unpulsed counters from raw-data/whatpulse-raw.json',
+  outputs: [{ path: 'api/whatpulse.json', schema: whatpulseOutputSchema, refreshEvery: '1h' }],
+  async fetch(ctx) {
+    return readJsonFile<{ data?: unknown; _fetchedAt?: string }>(
+      ctx.path('raw-data', 'whatpulse-raw.json'),
+      'Run whatpulse:fetch first.'
+    );
+  },
+  normalize(parsed, ctx) {
+    const data = parsed.data ?? parsed;
+    const topLevelKeys = typeof data === 'object' && data !== null && !Array.isArray(data) ? Object.keys(data as object) : [];
+
+    const totals = extractSection(data, 'totals');
+    const unpulsedSection = extractSection(data, 'unpulsed');
+    const hasUnpulsed =
+      unpulsedSection.keys !== null ||
+      unpulsedSection.clicks !== null ||
+      unpulsedSection.scrolls !== null ||
+      unpulsedSection.uptimeSeconds !== null;
+
+    const detectedPaths: Record<string, string | null> = {};
+    const fields: NumericField[] = ['keys', 'clicks', 'scrolls', 'uptimeSeconds'];
+    for (const section of ['totals', 'unpulsed'] as const) {
+      for (const field of fields) {
+        const acc: Candidate[] = [];
+        collectCandidates(data, '', '', field, FIELD_PATTERNS[field], acc);
+        const best = pickBest(acc, section);
+        const key = section === 'totals' ? `totals.${field}` : `unpulsed.${field}`;
+        detectedPaths[key] = best ? best.path : null;
+      }
     }
-    process.exit(1);
-  }
 
-  let parsed: { data?: unknown; _fetchedAt?: string };
-  try {
-    parsed = JSON.parse(raw) as { data?: unknown; _fetchedAt?: string };
-  } catch {
-    console.error('raw-data/whatpulse-raw.json is not valid JSON.');
-    process.exit(1);
+    const output: WhatPulseOutput = {
+      updatedAt: ctx.now.toISOString(),
+      source: 'whatpulse-client-api',
+      totals,
+      unpulsed: hasUnpulsed ? unpulsedSection : null,
+      debug: {
+        topLevelKeys,
+        detectedPaths
+      }
+    };
+
+    return [{ path: 'api/whatpulse.json', data: output }];
   }
+});
 
-  const data = parsed.data ?? parsed;
-  const topLevelKeys = typeof data === 'object' && data !== null && !Array.isArray(data) ? Object.keys(data as object) : [];
-
-  const totals = extractSection(data, 'totals');
-  const unpulsedSection = extractSection(data, 'unpulsed');
-  const hasUnpulsed =
-    unpulsedSection.keys !== null ||
-    unpulsedSection.clicks !== null ||
-    unpulsedSection.scrolls !== null ||
-    unpulsedSection.uptimeSeconds !== null;
-
-  const detectedPaths: Record<string, string | null> = {};
-  const fields: NumericField[] = ['keys', 'clicks', 'scrolls', 'uptimeSeconds'];
-  for (const section of ['totals', 'unpulsed'] as const) {
-    for (const field of fields) {
-      const acc: Candidate[] = [];
-      collectCandidates(data, '', '', field, FIELD_PATTERNS[field], acc);
-      const best = pickBest(acc, section);
-      const key = section === 'totals' ? `totals.${field}` : `unpulsed.${field}`;
-      detectedPaths[key] = best ? best.path : null;
-    }
-  }
-
-  const output: WhatPulseOutput = {
-    updatedAt: new Date().toISOString(),
-    source: 'whatpulse-client-api',
-    totals,
-    unpulsed: hasUnpulsed ? unpulsedSection : null,
-    debug: {
-      topLevelKeys,
-      detectedPaths
-    }
-  };
-
-  const apiPath = join(projectRoot, 'api', 'whatpulse.json');
-  await mkdir(dirname(apiPath), { recursive: true });
-  await writeFile(apiPath, JSON.stringify(output, null, 2) + '\n', 'utf-8');
-  console.log('Wrote api/whatpulse.json');
-}
-
-const isMain = process.argv[1] && __filename === process.argv[1];
-if (isMain) {
-  main().catch((err) => {
-    console.error('Fatal error:', err instanceof Error ? err.message : String(err));
-    process.exit(1);
-  });
-}
+runSourceScript(import.meta.url, whatpulseSource);
@@ -1,12 +1,8 @@
 import { execSync } from 'node:child_process';
-import { fileURLToPath } from 'node:url';
-import { dirname, join } from 'node:path';
-import { main as fetchRawMain } from './fetch-raw.js';
-import { main as buildWhatPulseMain } from './build-whatpulse.js';
-import { main as buildWeeklyMain } from './build-weekly.js';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+import { projectRoot, runScript, runSource, type Logger } from '../core/index.js';
+import { whatpulseRawSource } from './fetch-raw.js';
+import { whatpulseSource } from './build-whatpulse.js';
+import { whatpulseWeeklySource } from './build-weekly.js';
 
 function run(cmd: string, cwd: string): void {
   execSync(cmd, {
@@ -25,16 +21,14 @@ function tryRun(cmd: string, cwd: string): boolean {
   }
 }
 
-async function main(): Promise<void> {
-  const projectRoot = join(__dirname, '../..');
-
+async function main(log: Logger): Promise<void> {
   // 1) Pull FIRST (before generating files)
   // If the working tree isn't clean, stash it temporarily so pull can succeed.
   const isClean = tryRun('git diff --quiet', projectRoot) && tryRun('git diff --cached --quiet', projectRoot);
   const hadLocalChanges = !isClean;
 
   if (hadLocalChanges) {
-    console.log('Working tree not clean, stashing changes before pull...');
+    log.info('Working tree not clean, stashing changes before pull...');
     run('git stash push -u -m "autostash: whatpulse runner"', projectRoot);
   }
 
@@ -42,15 +36,15 @@ async function main(): Promise<void> {
   run('git pull --rebase', projectRoot);
 
   if (hadLocalChanges) {
-    console.log('Re-applying stashed changes...');
+    log.info('Re-applying stashed changes...');
     // If this conflicts, it will throw and we'll stop (safer than pushing a mess)
     run('git stash pop', projectRoot);
   }
 
   // 2) Generate outputs
-  await fetchRawMain();
-  await buildWhatPulseMain();
-  await buildWeeklyMain();
+  await runSource(whatpulseRawSource);
+  await runSource(whatpulseSource);
+  await runSource(whatpulseWeeklySource);
 
   // 3) Stage only the files we care about
   run(
@@ -61,7 +55,7 @@ async function main(): Promise<void> {
   // 4) If nothing staged, exit
   const noStagedChanges = tryRun('git diff --staged --quiet', projectRoot);
   if (noStagedChanges) {
-    console.log('No changes to commit');
+    log.info('No changes to commit');
     return;
   }
 
@@ -72,10 +66,7 @@ async function main(): Promise<void> {
   
 
   run('git push', projectRoot);
-  console.log('Committed and pushed.');
+  log.info('Committed and pushed.');
 }
 
-main().catch((err) => {
-  console.error('Fatal error:', err instanceof Error ? err.message : String(err));
-  process.exit(1);
-});
+runScript(import.meta.url, 'whatpulse-runner', main);
@@ -0,0 +1,134 @@
+import { defineSource, normalizeWhitespace, runSourceScript, schema, type Schema } from '../core/index.js';
+import { normalizeTitle, recentGameSchema, type RecentGame } from '../openxbl/build-openxbl.js';
+import {
+  fetchAchievementTitles,
+  fetchGamerscore,
+  fetchTitleHistory,
+  signIn,
+  type AchievementTitle,
+  type TitleHubTitle
+} from './xbox-live.js';
+
+/*
+ * Xbox Live profile straight from Microsoft: recent titles in the same
+ * RecentGame shape api/games.json uses, overall gamerscore, and achievement
+ * progress per title.
+ */
+
+export type TitleAchievements = {
+  titleId: string;
+  name: string;
+  earned: number;
+  total: number;
+  gamerscore: number;
+  totalGamerscore: number;
+  /** Most recent unlock in this title, if any. */
+  lastUnlock: string | null;
+};
+
+export type XboxOutput = {
+  updatedAt: string;
+  source: 'xbox-webapi';
+  gamertag: string;
+  gamerscore: number | null;
+  recentGames: RecentGame[];
+  /** Titles with achievements, most recently unlocked first. */
+  achievements: TitleAchievements[];
+};
+
+const RECENT_LIMIT = 10;
+
+export const xboxOutputSchema: Schema<XboxOutput> = schema.object({
+  updatedAt: schema.string({ format: 'date-time' }),
+  source: schema.literal('xbox-webapi'),
+  gamertag: schema.string({ minLength: 1 }),
+  gamerscore: schema.nullable(schema.integer({ minimum: 0 })),
+  recentGames: schema.array(recentGameSchema),
+  achievements: schema.array(
+    schema.object({
+      titleId: schema.string({ minLength: 1 }),
+      name: schema.string({ minLength: 1 }),
+      earned: schema.integer({ minimum: 0 }),
+      total: schema.integer({ minimum: 0 }),
+      gamerscore: schema.integer({ minimum: 0 }),
+      totalGamerscore: schema.integer({ minimum: 0 }),
+      lastUnlock: schema.nullable(schema.string({ format: 'date-time' }))
+    })
+  )
+});
+
+type RawXbox = {
+  gamertag: string;
+  gamerscore: number | null;
+  titles: TitleHubTitle[];
+  achievements: AchievementTitle[];
+};
+
+function count(v: unknown): number {
+  return typeof v === 'number' && Number.isFinite(v) && v > 0 ? Math.round(v) : 0;
+}
+
+function toTitleAchievements(t: AchievementTitle): TitleAchievements | null {
+  const titleId = t.titleId === undefined ? '' : String(t.titleId);
+  const name = normalizeWhitespace(t.name || '');
+  if (!titleId || !name) return null;
+  const lastUnlock = t.lastUnlock ? new Date(t.lastUnlock) : null;
+  return {
+    titleId,
+    name,
+    earned: count(t.currentAchievements),
+    total: count(t.totalAchievements),
+    gamerscore: count(t.currentGamerscore),
+    totalGamerscore: count(t.maxGamerscore),
+    // Titles without unlocks report 0001-01-01.
+    lastUnlock: lastUnlock && !Number.isNaN(lastUnlock.getTime()) && lastUnlock.getUTCFullYear() > 1970 ? lastUnlock.toISOString() : null
+  };
+}
+
+export const xboxSource = defineSource({
+  name: 'xbox',
+  description: 'Xbox Live titles, gamerscore and achievement progress via xbox-webapi',
+  outputs: [{ path: 'api/xbox.json', schema: xboxOutputSchema, refreshEvery: '16d' }],
+  async fetch(ctx): Promise<RawXbox> {
+    const session = await signIn({
+      clientId: ctx.env('XBOX_CLIENT_ID'),
+      clientSecret: ctx.optionalEnv('XBOX_CLIENT_SECRET'),
+      refreshToken: ctx.env('XBOX_REFRESH_TOKEN')
+    });
+    ctx.log.info(`Signed in as ${session.gamertag}`);
+    return {
+      gamertag: session.gamertag,
+      gamerscore: await fetchGamerscore(session),
+      titles: await fetchTitleHistory(session),
+      achievements: await fetchAchievementTitles(session)
+    };
+  },
+  normalize(raw, ctx) {
+    const recentGames: RecentGame[] = raw.titles.slice(0, RECENT_LIMIT).map((t) => {
+      const { _raw, ...game } = normalizeTitle(t);
+      return game;
+    });
+    const achievements = raw.achievements
+      .map(toTitleAchievements)
+      .filter((t): t is TitleAchievements => t !== null && t.total > 0)
+      .sort((a, b) => (b.lastUnlock ?? '').localeCompare(a.lastUnlock ?? '') || a.name.localeCompare(b.name));
+
+    const output: XboxOutput = {
+      updatedAt: ctx.now.toISOString(),
+      source: 'xbox-webapi',
+      gamertag: raw.gamertag,
+      gamerscore: raw.gamerscore,
+      recentGames,
+      achievements
+    };
+    return [
+      {
+        path: 'api/xbox.json',
+        data: output,
+        summary: `${recentGames.length} recent games, ${achievements.length} titles with achievements, gamerscore ${raw.gamerscore ?? '-'}`
+      }
+    ];
+  }
+});
+
+runSourceScript(import.meta.url, xboxSource);
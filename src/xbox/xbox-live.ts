@@ -0,0 +1,142 @@
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import XboxApiClient from 'xbox-webapi';
+import { safeSnippet, upstreamError } from '../core/index.js';
+
+/*
+ * Direct Xbox Live access through xbox-webapi, for when OpenXBL isn't an
+ * option. Auth is a Microsoft account refresh token (XBOX_REFRESH_TOKEN) for
+ * an Azure app (XBOX_CLIENT_ID, plus XBOX_CLIENT_SECRET for confidential
+ * apps), exchanged for user and XSTS tokens on every run.
+ */
+
+export type XboxCredentials = { clientId: string; clientSecret: string | null; refreshToken: string };
+
+export type XboxLiveSession = {
+  client: ReturnType<typeof XboxApiClient>;
+  gamertag: string;
+  xuid: string;
+};
+
+/** One entry of titlehub's title history; the same payload OpenXBL proxies. */
+export type TitleHubTitle = Record<string, unknown> & {
+  titleId?: string;
+  name?: string;
+  achievement?: {
+    currentAchievements?: number;
+    totalAchievements?: number;
+    currentGamerscore?: number;
+    totalGamerscore?: number;
+    progressPercentage?: number;
+  };
+};
+
+export type AchievementTitle = {
+  titleId?: number | string;
+  name?: string;
+  currentAchievements?: number;
+  totalAchievements?: number;
+  currentGamerscore?: number;
+  maxGamerscore?: number;
+  lastUnlock?: string;
+};
+
+const AUTH_HINT = 'XBOX_REFRESH_TOKEN must come from the same Azure app as XBOX_CLIENT_ID (scopes XboxLive.signin XboxLive.offline_access); sign in again if it expired.';
+
+function describe(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  if (typeof err === 'string') return err;
+  if (err && typeof err === 'object' && 'status' in err) {
+    const { status, body } = err as { status: unknown; body?: unknown };
+    return `HTTP ${String(status)}${typeof body === 'string' && body ? `: ${safeSnippet(body)}` : ''}`;
+  }
+  return safeSnippet(JSON.stringify(err) ?? String(err));
+}
+
+/** xbox-webapi rejects with strings and {status, body}; make those upstream errors. */
+async function call<T>(what: string, request: () => Promise<unknown>, hint?: string): Promise<T> {
+  try {
+    return (await request()) as T;
+  } catch (err) {
+    throw upstreamError(`Xbox Live ${what} failed: ${describe(err)}`, { hint });
+  }
+}
+
+export async function signIn(credentials: XboxCredentials): Promise<XboxLiveSession> {
+  const client = XboxApiClient({ clientId: credentials.clientId, clientSecret: credentials.clientSecret ?? '' });
+  const auth = client._authentication;
+  // The library saves every token it gets to .tokens.json in the working directory; keep that out of the repo.
+  auth._tokensFile = join(tmpdir(), 'kochu-xbox-tokens.json');
+
+  auth._tokens = { oauth: await call('token refresh', () => auth.refreshToken(credentials.refreshToken), AUTH_HINT), user: {}, xsts: {} };
+  await call('sign-in', () => auth.refreshTokens('user'), AUTH_HINT);
+  if (!auth._user) {
+    throw upstreamError('Xbox Live sign-in returned no user.', { hint: AUTH_HINT });
+  }
+  return { client, gamertag: auth._user.gamertag, xuid: auth._user.xid };
+}
+
+export async function fetchTitleHistory(session: XboxLiveSession): Promise<TitleHubTitle[]> {
+  const data = await call<{ titles?: TitleHubTitle[] }>('title history', () => session.client.getProvider('titlehub').getTitleHistory());
+  return data.titles ?? [];
+}
+
+/** Achievement progress for every title with achievements, following continuation tokens. */
+export async function fetchAchievementTitles(session: XboxLiveSession, maxPages: number = 10): Promise<AchievementTitle[]> {
+  const provider = session.client.getProvider('achievements');
+  const titles: AchievementTitle[] = [];
+  let token = 0;
+  for (let page = 0; page < maxPages; page++) {
+    const data = await call<{ titles?: AchievementTitle[]; pagingInfo?: { continuationToken?: string | null } }>('achievements', () =>
+      provider.getTitleAchievements(token)
+    );
+    titles.push(...(data.titles ?? []));
+    const next = Number(data.pagingInfo?.continuationToken);
+    if (!next) break;
+    token = next;
+  }
+  return titles;
+}
+
+/** Gamerscore from a profile/settings response (Xbox Live's, or OpenXBL's /account). */
+export function gamerscoreFromProfile(data: unknown): number | null {
+  const users = (data as { profileUsers?: { settings?: { id?: string; value?: string }[] }[] } | null)?.profileUsers;
+  const value = users?.[0]?.settings?.find((s) => s.id === 'Gamerscore')?.value;
+  const n = Number.parseInt(value ?? '', 10);
+  return Number.isNaN(n) ? null : n;
+}
+
+/** MinutesPlayed from a userstats response, wherever in the batch shape it sits. */
+export function minutesPlayedFromStats(data: unknown): number | null {
+  const stack: unknown[] = [data];
+  while (stack.length > 0) {
+    const node = stack.pop();
+    if (Array.isArray(node)) {
+      stack.push(...node);
+    } else if (node && typeof node === 'object') {
+      const o = node as Record<string, unknown>;
+      if (o.name === 'MinutesPlayed' && o.value !== undefined) {
+        const n = Number(o.value);
+        return Number.isFinite(n) && n >= 0 ? Math.round(n) : null;
+      }
+      stack.push(...Object.values(o));
+    }
+  }
+  return null;
+}
+
+export async function fetchGamerscore(session: XboxLiveSession): Promise<number | null> {
+  return gamerscoreFromProfile(await call('profile', () => session.client.getProvider('profile').getUserProfile()));
+}
+
+/** A title's achievements with unlock state and rarity (contract v2). */
+export async function fetchTitleAchievements(session: XboxLiveSession, titleId: string): Promise<unknown[]> {
+  const data = await call<{ achievements?: unknown[] }>('title achievements', () =>
+    session.client.getProvider('achievements').getTitleId(titleId)
+  );
+  return data.achievements ?? [];
+}
+
+export async function fetchMinutesPlayed(session: XboxLiveSession, titleId: string): Promise<number | null> {
+  return minutesPlayedFromStats(await call('title stats', () => session.client.getProvider('userstats').getUserTitleStats(titleId)));
+}